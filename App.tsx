@@ -4,42 +4,123 @@
  * Licensed under AGPL v3
  */
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { v4 as uuidv4 } from 'uuid';
-import { Play, Trash2, StopCircle, Settings, Globe, Moon, Sun, Monitor } from 'lucide-react';
-import { Command, CommandType, RobotState, Point } from './types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Play, Pause, StepForward, StepBack, Snail, Rabbit, Trash2, StopCircle, Blocks, ListTree, Code, Download, Upload, Link, FolderOpen, Undo2, Redo2, Settings, Globe, Moon, Sun, Monitor, Trophy, Gamepad2, Lightbulb } from 'lucide-react';
+import { Command, CommandType, Condition, RobotState, PathSegment, CallArgument, BoardSettings } from './types';
 import { GridBoard } from './components/GridBoard';
 import { CommandPalette } from './components/CommandPalette';
 import { Timeline } from './components/Timeline';
-import { 
-  GRID_SIZE, 
-  START_X, 
-  START_Y, 
-  START_ANGLE, 
-  ANIMATION_DELAY 
-} from './constants';
+import { ProgramTextEditor } from './components/ProgramTextEditor';
+import { ProjectManager } from './components/ProjectManager';
+import { ProgramTree } from './components/ProgramTree';
+import { Breadcrumbs } from './components/Breadcrumbs';
+import { ProcedureHandlers } from './components/ProcedureEditors';
+import { ChallengePicker, ChallengeBar, ChallengeEditor } from './components/Challenges';
+import { AnalysisPanel } from './components/AnalysisPanel';
+import { Announcer, describeStep } from './components/Announcer';
+import { DrivePad } from './components/DrivePad';
+import { SuggestionsPanel } from './components/SuggestionsPanel';
+import { SPEED_LEVELS, DEFAULT_SPEED, SpeedId, STORAGE_KEYS, AUTOSAVE_DELAY } from './constants';
 import { playSound } from './utils/audio';
+import { runProgram, getPathAtStep, createSegment, ExecutionTrace, ExecutionError } from './utils/interpreter';
+import { DEFAULT_BOARD_SETTINGS, getBoard, getStartState } from './utils/board';
+import { isOnGoal } from './utils/sensors';
+import { getUnitLength, UNIT_LABEL_KEYS } from './utils/units';
+import { getDriveValue, recordMove } from './utils/drive';
+import { findSuggestions, applySuggestion, Suggestion } from './utils/simplify';
+import { analyzeRun, PathAnalysis } from './utils/geometry';
+import { serializeProgram, parseProgramFile, encodeShareHash, decodeShareHash, ProgramLoadError } from './utils/programFile';
+import { downloadBlob, readFileAsText, toFileName } from './utils/download';
+import {
+  KeyboardMove,
+  createCommand,
+  updateTree,
+  findCommand,
+  findLocation,
+  getCommandPath,
+  getCommandPosition,
+  insertCommand,
+  removeCommand,
+  updateCommandValue,
+  updateCommandName,
+  updateCommandCondition,
+  moveCommand,
+  moveCommandWithKeyboard
+} from './utils/commandTree';
+import {
+  collectProcedures,
+  getUniqueName,
+  renameProcedure,
+  addParameter,
+  removeParameter,
+  renameParameter,
+  setCallTarget,
+  updateCallArgument
+} from './utils/procedures';
+import {
+  Challenge,
+  ChallengeResult,
+  BUILT_IN_CHALLENGES,
+  checkChallenge,
+  getChallengeText,
+  getChallengeBoard,
+  loadChallengeStars,
+  saveChallengeStars,
+  loadCustomChallenges,
+  saveCustomChallenges
+} from './utils/challenges';
+import { serializeChallenge, parseChallengeFile, encodeChallengeHash, decodeChallengeHash, ChallengeLoadError } from './utils/challengeFile';
+import { History, createHistory, pushHistory, undoHistory, redoHistory } from './utils/history';
+import {
+  Project,
+  loadProjects,
+  saveProjects,
+  createProject,
+  updateProjectProgram,
+  duplicateProject,
+  loadProjectProgram,
+  canOpenProject
+} from './utils/projectStore';
 import { translations, Language } from './translations';
 
 // --- Types ---
 
 type Theme = 'light' | 'dark' | 'system';
+type ProgramView = 'blocks' | 'tree' | 'text';
+type Notice = { kind: 'error' | 'info'; text: string };
 
-// --- Helper to convert degrees to radians ---
-const toRad = (deg: number) => (deg * Math.PI) / 180;
+// Blocks added by the arrow keys
+const ARROW_BLOCKS: Record<string, CommandType> = {
+  ArrowUp: CommandType.FORWARD,
+  ArrowDown: CommandType.BACKWARD,
+  ArrowLeft: CommandType.TURN_LEFT,
+  ArrowRight: CommandType.TURN_RIGHT,
+};
 
 const App: React.FC = () => {
   // --- Settings State ---
   const [language, setLanguage] = useState<Language>(() => {
+    const saved = localStorage.getItem(STORAGE_KEYS.language);
+    if (saved && saved in translations) return saved as Language;
     // Basic auto-detect
     const navLang = navigator.language.split('-')[0];
     if (['ca', 'es', 'gl', 'eu', 'en'].includes(navLang)) return navLang as Language;
     return 'ca'; // Default fallback
   });
   
-  const [theme, setTheme] = useState<Theme>('system');
+  const [theme, setTheme] = useState<Theme>(() => {
+    const saved = localStorage.getItem(STORAGE_KEYS.theme);
+    return saved === 'light' || saved === 'dark' ? saved : 'system';
+  });
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
+  const [speed, setSpeed] = useState<SpeedId>(() => {
+    const saved = localStorage.getItem(STORAGE_KEYS.speed);
+    return SPEED_LEVELS.some(level => level.id === saved) ? saved as SpeedId : DEFAULT_SPEED;
+  });
+  const speedIndex = SPEED_LEVELS.findIndex(level => level.id === speed);
+  const stepDelay = SPEED_LEVELS[speedIndex].delay;
+
   // --- Translation Helper ---
   const t = useCallback((key: string) => {
     // @ts-ignore
@@ -59,189 +140,710 @@ const App: React.FC = () => {
     }
   }, [theme]);
 
+  // --- Persist Settings ---
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.speed, speed);
+    localStorage.setItem(STORAGE_KEYS.language, language);
+    localStorage.setItem(STORAGE_KEYS.theme, theme);
+  }, [speed, language, theme]);
+
+  // Screen readers pick their voice from the page language
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // --- Projects State ---
+  // Projects that can't be opened are kept as they are and skipped
+  const [projects, setProjects] = useState<Project[]>(() => {
+    const saved = loadProjects();
+    return saved.some(canOpenProject) ? saved : [...saved, createProject(`${t('project')} ${saved.length + 1}`)];
+  });
+  const [currentProjectId, setCurrentProjectId] = useState<string>(() => {
+    const saved = localStorage.getItem(STORAGE_KEYS.currentProject);
+    return (projects.find(p => p.id === saved && canOpenProject(p)) ?? projects.find(canOpenProject)!).id;
+  });
+  // The project open last time, when it was skipped
+  const [skippedProject] = useState(() => projects.find(p => p.id === localStorage.getItem(STORAGE_KEYS.currentProject) && !canOpenProject(p)));
+  const [isProjectsOpen, setIsProjectsOpen] = useState(false);
+  const currentProject = projects.find(p => p.id === currentProjectId);
 
   // --- App State ---
-  const [commands, setCommands] = useState<Command[]>([]);
+  // The program lives in an undo history, `commands` is its present
+  const [history, setHistory] = useState<History<Command[]>>(() => createHistory(currentProject ? loadProjectProgram(currentProject).commands : []));
+  const commands = history.present;
+
+  // Edit the program as one undo step (see pushHistory for mergeKey)
+  const editCommands = (update: (prev: Command[]) => Command[], mergeKey?: string) => {
+    setHistory(prev => pushHistory(prev, update(prev.present), mergeKey));
+  };
+
+  // Replace the program and forget its history, e.g. when opening another project
+  const resetCommands = (next: Command[]) => {
+    setHistory(createHistory(next));
+  };
+
+  // Board and start pose of the program, saved with it but outside the undo history
+  const [boardSettings, setBoardSettings] = useState<BoardSettings>(() => currentProject ? loadProjectProgram(currentProject).board : DEFAULT_BOARD_SETTINGS);
   const [activeContainerId, setActiveContainerId] = useState<string | null>(null);
+  const [programView, setProgramView] = useState<ProgramView>('blocks');
+  const [hasTextErrors, setHasTextErrors] = useState(false);
   
-  const [robotState, setRobotState] = useState<RobotState>({
-    x: START_X,
-    y: START_Y,
-    angle: START_ANGLE,
-    penDown: true,
-  });
+  const [robotState, setRobotState] = useState<RobotState>(() => getStartState(boardSettings));
 
-  const [path, setPath] = useState<Point[]>([{ x: START_X, y: START_Y }]);
+  const [path, setPath] = useState<PathSegment[]>(() => [createSegment(getStartState(boardSettings))]);
   const [isPlaying, setIsPlaying] = useState(false);
-  const stopRef = useRef(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(null); // Errors and confirmations above the timeline
+  const [errorCommandId, setErrorCommandId] = useState<string | null>(null); // Block that halted the last run
+  const [hasCrashed, setHasCrashed] = useState(false); // The last run hit a wall, until the robot goes back to the start
+  const [analysis, setAnalysis] = useState<PathAnalysis | null>(null); // Geometry of the last run, while its drawing is shown
+  const [isDriving, setIsDriving] = useState(false); // Drive mode: moves made by hand are recorded as blocks
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
 
-  // --- Helpers to manage nested state ---
-  
-  // Pure function to update the immutable tree
-  const updateTree = (cmds: Command[], parentId: string | null, updateFn: (list: Command[]) => Command[]): Command[] => {
-    if (parentId === null) {
-      return updateFn(cmds);
+  // --- Challenge State ---
+  const [activeChallengeId, setActiveChallengeId] = useState<string | null>(null);
+  const [challengeResult, setChallengeResult] = useState<ChallengeResult | null>(null); // Last complete run
+  const [challengeStars, setChallengeStars] = useState<Record<string, number>>(loadChallengeStars);
+  const [customChallenges, setCustomChallenges] = useState<Challenge[]>(loadCustomChallenges);
+  const [isChallengesOpen, setIsChallengesOpen] = useState(false);
+  const [isChallengeEditorOpen, setIsChallengeEditorOpen] = useState(false);
+  const allChallenges = [...BUILT_IN_CHALLENGES, ...customChallenges];
+  const activeChallenge = allChallenges.find(c => c.id === activeChallengeId) ?? null;
+  // Challenges bring their own board
+  const activeBoard = activeChallenge ? getChallengeBoard(activeChallenge) : boardSettings;
+  const startState = getStartState(activeBoard);
+
+  useEffect(() => {
+    if (!saveCustomChallenges(customChallenges)) setNotice({ kind: 'error', text: t('storage_full') });
+  }, [customChallenges]);
+
+  // --- Debugger State ---
+  const [trace, setTrace] = useState<ExecutionTrace | null>(null);
+  const [stepIndex, setStepIndex] = useState(-1); // -1 = nothing executed yet
+
+  // --- Autosave ---
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setProjects(prev => prev.map(p => p.id === currentProjectId ? updateProjectProgram(p, commands, boardSettings) : p));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [commands, boardSettings, currentProjectId]);
+
+  useEffect(() => {
+    if (!saveProjects(projects)) setNotice({ kind: 'error', text: t('storage_full') });
+  }, [projects]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.currentProject, currentProjectId);
+  }, [currentProjectId]);
+
+  // --- Actions ---
+
+  // New block ready to use: procedures get a free name, calls target the first procedure
+  const newBlock = (type: CommandType): Command => {
+    const cmd = createCommand(type);
+    if (type === CommandType.DEFINE) {
+      cmd.name = getUniqueName(commands, t('procedure_base_name'));
     }
-    return cmds.map(cmd => {
-      if (cmd.id === parentId) {
-        return { ...cmd, children: updateFn(cmd.children || []) };
-      }
-      if (cmd.children) {
-        return { ...cmd, children: updateTree(cmd.children, parentId, updateFn) };
+    if (type === CommandType.SET_VARIABLE) {
+      cmd.name = t('variable_base_name');
+    }
+    if (type === CommandType.CALL) {
+      const first = collectProcedures(commands).find(p => p.name);
+      if (first) {
+        cmd.name = first.name;
+        cmd.args = (first.params || []).map(() => ({ value: 0 }));
       }
-      return cmd;
-    });
+    }
+    return cmd;
   };
 
-  // --- Actions ---
-
   const handleAddCommand = (type: CommandType) => {
     playSound('move');
-    const newCmd: Command = {
-      id: uuidv4(),
-      type,
-      value: type === CommandType.REPEAT ? 2 : (type === CommandType.TURN_LEFT || type === CommandType.TURN_RIGHT ? 90 : 1),
-      children: type === CommandType.REPEAT ? [] : undefined,
-    };
+    const newCmd = newBlock(type);
+    if (type === CommandType.DEFINE) {
+      // Procedures live in the main program; open the new one to fill its body
+      editCommands(prev => [...prev, newCmd]);
+      setActiveContainerId(newCmd.id);
+      return;
+    }
+    editCommands(prev => updateTree(prev, activeContainerId, (list) => [...list, newCmd]));
+  };
 
-    setCommands(prev => updateTree(prev, activeContainerId, (list) => [...list, newCmd]));
+  // Dropped from the palette at a given position
+  const handleInsertCommand = (type: CommandType, parentId: string | null, index: number) => {
+    playSound('move');
+    const newCmd = newBlock(type);
+    editCommands(prev => insertCommand(prev, parentId, index, newCmd));
   };
 
   const handleRemoveCommand = (id: string) => {
     playSound('clear');
-    const recursiveFilter = (list: Command[]): Command[] => {
-      return list.filter(c => c.id !== id).map(c => ({
-        ...c,
-        children: c.children ? recursiveFilter(c.children) : undefined
-      }));
-    };
-    setCommands(prev => recursiveFilter(prev));
+    editCommands(prev => removeCommand(prev, id));
   };
 
-  const handleUpdateCommand = (id: string, value: number) => {
-    const recursiveUpdate = (list: Command[]): Command[] => {
-      return list.map(c => {
-        if (c.id === id) return { ...c, value };
-        if (c.children) return { ...c, children: recursiveUpdate(c.children) };
-        return c;
-      });
-    };
-    setCommands(prev => recursiveUpdate(prev));
+  const handleUpdateCommand = (id: string, value: number, expr?: string) => {
+    editCommands(prev => updateCommandValue(prev, id, value, expr), `value:${id}`);
+  };
+
+  const handleRenameCommand = (id: string, name: string) => {
+    editCommands(prev => updateCommandName(prev, id, name));
+  };
+
+  const handleConditionChange = (id: string, condition: Condition) => {
+    editCommands(prev => updateCommandCondition(prev, id, condition));
   };
 
+  const handleMoveCommand = (id: string, parentId: string | null, index: number) => {
+    playSound('move');
+    editCommands(prev => moveCommand(prev, id, parentId, index));
+  };
+
+  const handleKeyboardMove = (id: string, move: KeyboardMove) => {
+    playSound('move');
+    editCommands(prev => moveCommandWithKeyboard(prev, id, move));
+  };
+
+  const procedureHandlers: ProcedureHandlers = {
+    procedures: collectProcedures(commands),
+    onRename: (defineId: string, name: string) => {
+      editCommands(prev => renameProcedure(prev, defineId, name));
+    },
+    onAddParam: (defineId: string) => {
+      const define = collectProcedures(commands).find(p => p.id === defineId);
+      const taken = new Set(define?.params || []);
+      const base = t('param_base_name');
+      let name = base;
+      for (let n = 2; taken.has(name); n++) name = `${base}${n}`;
+      editCommands(prev => addParameter(prev, defineId, name));
+    },
+    onRemoveParam: (defineId: string, index: number) => {
+      editCommands(prev => removeParameter(prev, defineId, index));
+    },
+    onRenameParam: (defineId: string, index: number, name: string) => {
+      editCommands(prev => renameParameter(prev, defineId, index, name));
+    },
+    onSetCallTarget: (callId: string, name: string) => {
+      editCommands(prev => setCallTarget(prev, callId, name));
+    },
+    onUpdateArg: (callId: string, index: number, arg: CallArgument) => {
+      editCommands(prev => updateCallArgument(prev, callId, index, arg), `arg:${callId}:${index}`);
+    },
+  };
+
+  const handleUndo = () => {
+    if (history.past.length === 0) return;
+    playSound('turn');
+    setHistory(undoHistory);
+  };
+
+  const handleRedo = () => {
+    if (history.future.length === 0) return;
+    playSound('turn');
+    setHistory(redoHistory);
+  };
+
+  // Keyboard shortcuts. Text fields keep their own keys, and so do focused blocks (see Timeline).
+  //   Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac): undo / redo
+  //   Arrows: add FORWARD, BACKWARD, LEFT or RIGHT to the open body, or drive in drive mode
+  //   Enter: run or resume, Esc: stop
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.defaultPrevented || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (isProjectsOpen || isChallengesOpen || isChallengeEditorOpen) return; // Dialogs are on top
+
+      if (e.key === 'Escape' && isPlaying) {
+        e.preventDefault();
+        handleStop();
+        return;
+      }
+      // Buttons and links already react to Enter
+      if (e.key === 'Enter' && !e.ctrlKey && !e.metaKey && !['BUTTON', 'A'].includes(target.tagName)) {
+        if (isPlaying && !isPaused) return;
+        e.preventDefault();
+        handleRun();
+        return;
+      }
+      const arrowBlock = ARROW_BLOCKS[e.key];
+      if (arrowBlock && !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey) {
+        if (isPlaying || (activeChallenge?.allowedBlocks && !activeChallenge.allowedBlocks.includes(arrowBlock))) return;
+        e.preventDefault();
+        if (isDriving) handleDrive(arrowBlock);
+        else handleAddCommand(arrowBlock);
+        return;
+      }
+
+      if (!(e.ctrlKey || e.metaKey) || isPlaying) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleClearAll = () => {
     playSound('clear');
-    setCommands([]);
-    setPath([{ x: START_X, y: START_Y }]);
-    setRobotState({ x: START_X, y: START_Y, angle: START_ANGLE, penDown: true });
+    editCommands(() => []);
+    setPath([createSegment(startState)]);
+    setRobotState(startState);
     setActiveContainerId(null);
-    setIsPlaying(false);
+    endSession();
+    setNotice(null);
+    setErrorCommandId(null);
+    setHasCrashed(false);
+    setAnalysis(null);
+    setChallengeResult(null);
   };
 
-  const resetPosition = () => {
-    setRobotState({ x: START_X, y: START_Y, angle: START_ANGLE, penDown: true });
-    setPath([{ x: START_X, y: START_Y }]);
+  const resetPosition = (state: RobotState = startState) => {
+    setRobotState(state);
+    setPath([createSegment(state)]);
+    setHasCrashed(false);
+    setAnalysis(null);
   };
 
-  // --- Execution Engine ---
-
-  const executeCommand = async (cmd: Command, currentRobot: RobotState): Promise<RobotState> => {
-    if (stopRef.current) return currentRobot;
+  // The robot waits at the new start
+  const handleBoardChange = (board: BoardSettings) => {
+    endSession();
+    setBoardSettings(board);
+    resetPosition(getStartState(board));
+  };
 
-    await new Promise(resolve => setTimeout(resolve, ANIMATION_DELAY));
-    
-    let nextRobot = { ...currentRobot };
+  // --- Execution ---
 
-    switch (cmd.type) {
+  const getStepSound = (type: CommandType) => {
+    switch (type) {
       case CommandType.FORWARD:
-      case CommandType.BACKWARD:
-        const distance = cmd.value * GRID_SIZE; // 1 unit = 1 grid cell
-        const direction = cmd.type === CommandType.FORWARD ? 1 : -1;
-        
-        // Calculate new position
-        const dx = Math.cos(toRad(nextRobot.angle)) * distance * direction;
-        const dy = Math.sin(toRad(nextRobot.angle)) * distance * direction;
-        
-        nextRobot.x += dx;
-        nextRobot.y += dy;
-        
-        playSound('move');
-        setRobotState(nextRobot);
-        setPath(prev => [...prev, { x: nextRobot.x, y: nextRobot.y }]);
-        break;
-
-      case CommandType.TURN_LEFT:
-      case CommandType.TURN_RIGHT:
-        const turn = cmd.type === CommandType.TURN_RIGHT ? 1 : -1;
-        nextRobot.angle += (cmd.value * turn);
-        playSound('turn');
-        setRobotState(nextRobot);
-        break;
-        
+      case CommandType.BACKWARD: return 'move';
       case CommandType.REPEAT:
-        if (cmd.children) {
-          for (let i = 0; i < cmd.value; i++) {
-             // Recursive execution
-             nextRobot = await runSequence(cmd.children, nextRobot);
-             if (stopRef.current) break;
-          }
-        }
-        break;
+      case CommandType.CALL: return null; // Loops and calls are silent, their body makes the noise
+      case CommandType.SET_VARIABLE:
+      case CommandType.IF:
+      case CommandType.ELSE: return null;
+      default: return 'turn';
     }
-    
-    return nextRobot;
   };
 
-  const runSequence = async (sequence: Command[], startState: RobotState): Promise<RobotState> => {
-    let currentState = startState;
-    for (const cmd of sequence) {
-      if (stopRef.current) break;
-      currentState = await executeCommand(cmd, currentState);
-    }
-    return currentState;
+  // Show the robot and drawing as they were right after the given step
+  const showStep = (currentTrace: ExecutionTrace, index: number) => {
+    setStepIndex(index);
+    setRobotState(index < 0 ? startState : currentTrace.steps[index].state);
+    setPath(getPathAtStep(currentTrace, index));
   };
 
-  const handleRun = async () => {
-    if (commands.length === 0) return;
-    
+  const endSession = () => {
+    setIsPlaying(false);
+    setIsPaused(false);
+    setTrace(null);
+    setStepIndex(-1);
+  };
+
+  // Compute the whole program up front, the debugger only walks through the result
+  const startSession = (paused: boolean): ExecutionTrace => {
+    const newTrace = runProgram(commands, startState, getBoard(activeBoard));
+    setTrace(newTrace);
     setIsPlaying(true);
-    stopRef.current = false;
+    setIsPaused(paused);
+    setNotice(null);
+    setErrorCommandId(null);
+    setChallengeResult(null);
+    setIsDriving(false); // The run replays what was driven
     resetPosition();
-    
-    // Initial delay
-    await new Promise(r => setTimeout(r, 500));
+    setStepIndex(-1);
     playSound('start');
+    return newTrace;
+  };
 
-    // Start execution from FRESH state
-    const initialState = { x: START_X, y: START_Y, angle: START_ANGLE, penDown: true };
-    await runSequence(commands, initialState);
-    
-    setIsPlaying(false);
+  const finishSession = (currentTrace: ExecutionTrace) => {
+    setAnalysis(analyzeRun(currentTrace, startState, getUnitLength(activeBoard.unit, activeBoard.cellSize)));
+    if (currentTrace.error) {
+      const crashed = currentTrace.error.key === 'error_crash';
+      playSound(crashed ? 'crash' : 'error');
+      setHasCrashed(crashed);
+      setNotice({ kind: 'error', text: formatExecutionError(currentTrace.error) });
+      showErrorBlock(currentTrace.error.commandId);
+    } else if (activeChallenge) {
+      checkCurrentChallenge(currentTrace);
+    } else if (isOnGoal(currentTrace.finalState, getBoard(activeBoard))) {
+      playSound('success');
+      setNotice({ kind: 'info', text: t('goal_reached') });
+    }
+    endSession();
+  };
+
+  // Message with the position of the offending block, like "Block 2.1: ..."
+  const formatExecutionError = (error: ExecutionError) => {
+    const message = t(error.key).replace('{token}', error.token || '');
+    const position = error.commandId ? getCommandPosition(commands, error.commandId) : null;
+    return position ? `${t('block')} ${position}: ${message}` : message;
+  };
+
+  // Highlight the block and open the loop or procedure that contains it
+  const showErrorBlock = (commandId?: string) => {
+    setErrorCommandId(commandId ?? null);
+    const location = commandId ? findLocation(commands, commandId) : null;
+    if (location && programView === 'blocks') setActiveContainerId(location.parentId);
+  };
+
+  // --- Challenges ---
+
+  // Automatic check once the whole program has run
+  const checkCurrentChallenge = (currentTrace: ExecutionTrace) => {
+    const result = checkChallenge(activeChallenge, currentTrace, commands);
+    setChallengeResult(result);
+    if (!result.passed) return;
+    playSound('success');
+    if (result.stars > (challengeStars[activeChallenge.id] || 0)) {
+      const stars = { ...challengeStars, [activeChallenge.id]: result.stars };
+      setChallengeStars(stars);
+      saveChallengeStars(stars);
+    }
+  };
+
+  const startChallenge = (challenge: Challenge) => {
+    endSession();
+    resetPosition(getStartState(getChallengeBoard(challenge)));
+    setActiveChallengeId(challenge.id);
+    setChallengeResult(null);
+    setIsChallengesOpen(false);
+  };
+
+  const handleExitChallenge = () => {
+    endSession();
+    resetPosition(getStartState(boardSettings));
+    setActiveChallengeId(null);
+    setChallengeResult(null);
+  };
+
+  // Received challenges replace older copies of themselves (same id)
+  const addCustomChallenge = (challenge: Challenge) => {
+    setCustomChallenges(prev => [...prev.filter(c => c.id !== challenge.id), challenge]);
+    startChallenge(challenge);
+  };
+
+  const handleDeleteChallenge = (id: string) => {
+    if (id === activeChallengeId) handleExitChallenge();
+    setCustomChallenges(prev => prev.filter(c => c.id !== id));
+  };
+
+  const handleExportChallenge = (challenge: Challenge) => {
+    const json = JSON.stringify(serializeChallenge(challenge), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${toFileName(getChallengeText(challenge, 'title', t))}.json`);
+  };
+
+  const handleShareChallenge = (challenge: Challenge) => {
+    copyLink(`${window.location.origin}${window.location.pathname}${encodeChallengeHash(challenge)}`);
+  };
+
+  const formatChallengeError = (error: ChallengeLoadError) => {
+    return t(error.key).replace('{token}', error.token || '');
+  };
+
+  const advance = (currentTrace: ExecutionTrace, fromIndex: number) => {
+    const next = fromIndex + 1;
+    if (next >= currentTrace.steps.length) {
+      finishSession(currentTrace);
+      return;
+    }
+
+    const sound = getStepSound(currentTrace.steps[next].command.type);
+    if (sound) playSound(sound);
+    showStep(currentTrace, next);
+  };
+
+  // Playback loop: one step every stepDelay while running and not paused
+  useEffect(() => {
+    if (!isPlaying || isPaused || !trace) return;
+    if (stepDelay === 0) {
+      // Instant mode: jump straight to the final drawing
+      showStep(trace, trace.steps.length - 1);
+      finishSession(trace);
+      return;
+    }
+    const timer = setTimeout(() => advance(trace, stepIndex), stepDelay);
+    return () => clearTimeout(timer);
+  }, [isPlaying, isPaused, trace, stepIndex, stepDelay]);
+
+  const handleRun = () => {
+    if (commands.length === 0) return;
+    if (isPlaying && isPaused) {
+      setIsPaused(false); // Resume
+      return;
+    }
+    startSession(false);
+  };
+
+  const handlePause = () => {
+    setIsPaused(true);
+  };
+
+  const handleStep = () => {
+    if (commands.length === 0) return;
+    if (!isPlaying || !trace) {
+      advance(startSession(true), -1);
+      return;
+    }
+    advance(trace, stepIndex);
+  };
+
+  const handleStepBack = () => {
+    if (!trace || stepIndex < 0) return;
+    playSound('turn');
+    showStep(trace, stepIndex - 1);
   };
 
   const handleStop = () => {
-    stopRef.current = true;
-    setIsPlaying(false);
+    endSession();
     playSound('error'); // stop sound
   };
 
+  const currentStep = trace && stepIndex >= 0 ? trace.steps[stepIndex] : null;
+
+  // --- Simplification ---
+
+  // Only suggestions made of blocks the challenge allows
+  const suggestions = useMemo(() => {
+    const allowed = activeChallenge?.allowedBlocks;
+    return findSuggestions(commands).filter(s => !allowed || s.replacement.every(cmd => allowed.includes(cmd.type)));
+  }, [commands, activeChallenge]);
+
+  const handleApplySuggestion = (suggestion: Suggestion) => {
+    playSound('move');
+    editCommands(prev => applySuggestion(prev, suggestion));
+  };
+
+  // --- Drive Mode ---
+
+  // The robot stands where the program ends, so the next move continues from there
+  useEffect(() => {
+    if (!isDriving) return;
+    const drivenTrace = runProgram(commands, startState, getBoard(activeBoard));
+    setRobotState(drivenTrace.finalState);
+    setPath(drivenTrace.segments);
+  }, [isDriving, commands, boardSettings, activeChallengeId]);
+
+  const handleToggleDrive = () => {
+    endSession();
+    setActiveContainerId(null); // Moves are recorded in the main program
+    setNotice(null);
+    setErrorCommandId(null);
+    setHasCrashed(false);
+    setAnalysis(null);
+    setIsDriving(!isDriving);
+  };
+
+  // Moves that would fail (e.g. into a wall) are not recorded
+  const handleDrive = (type: CommandType) => {
+    // The robot is shown where the program ends while driving
+    const next = recordMove(commands, type, getDriveValue(type, activeBoard), robotState.penDown);
+    if (next === commands) return;
+    const drivenTrace = runProgram(next, startState, getBoard(activeBoard));
+    if (drivenTrace.error) {
+      const crashed = drivenTrace.error.key === 'error_crash';
+      playSound(crashed ? 'crash' : 'error');
+      setHasCrashed(crashed);
+      setNotice({ kind: 'error', text: formatExecutionError(drivenTrace.error) });
+      return;
+    }
+    const sound = getStepSound(type);
+    if (sound) playSound(sound);
+    setHasCrashed(false);
+    setNotice(null);
+    editCommands(() => next);
+  };
+  // Read out by screen readers: notices first, otherwise the block just run
+  const announcement = notice?.text ?? (currentStep ? describeStep(currentStep, activeBoard, t) : '');
+
+  // --- Save, Load & Share ---
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const formatLoadError = (error: ProgramLoadError) => {
+    const message = t(error.key).replace('{token}', error.token || '');
+    return error.path ? `${t('block')} ${error.path}: ${message}` : message;
+  };
+
+
+  const handleExport = () => {
+    const json = JSON.stringify(serializeProgram(commands, boardSettings), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${toFileName(currentProject?.name ?? '')}.json`);
+  };
+
+  const handleImport = async (file: File) => {
+    const text = await readFileAsText(file).catch(() => null);
+    if (text === null) {
+      playSound('error');
+      setNotice({ kind: 'error', text: t('import_read_failed') });
+      return;
+    }
+    // The same button opens challenges received from a teacher
+    const challengeResult = parseChallengeFile(text);
+    if (challengeResult) {
+      if (challengeResult.error) {
+        playSound('error');
+        setNotice({ kind: 'error', text: formatChallengeError(challengeResult.error) });
+        return;
+      }
+      playSound('start');
+      addCustomChallenge(challengeResult.challenge);
+      return;
+    }
+
+    const result = parseProgramFile(text);
+    if (result.error) {
+      playSound('error');
+      setNotice({ kind: 'error', text: formatLoadError(result.error) });
+      return;
+    }
+    playSound('start');
+    setNotice({ kind: 'info', text: t('import_done') });
+    openNewProject(file.name.replace(/\.json$/i, ''), result.commands, result.board);
+  };
+
+  const handleShare = () => {
+    copyLink(`${window.location.origin}${window.location.pathname}${encodeShareHash(commands, boardSettings)}`);
+  };
+
+  const copyLink = async (url: string) => {
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice({ kind: 'info', text: t('link_copied') });
+    } catch {
+      // Clipboard may be blocked, the link is still in the address bar
+      setNotice({ kind: 'info', text: t('link_in_address_bar') });
+    }
+  };
+
+  // Open a program shared through the URL hash as a new project, or a challenge
+  useEffect(() => {
+    const challengeResult = decodeChallengeHash(window.location.hash);
+    if (challengeResult) {
+      window.history.replaceState(null, '', window.location.pathname);
+      if (challengeResult.error) setNotice({ kind: 'error', text: formatChallengeError(challengeResult.error) });
+      else addCustomChallenge(challengeResult.challenge);
+      return;
+    }
+
+    const result = decodeShareHash(window.location.hash);
+    if (!result) return;
+    // It is saved as a project now, reloading should not open it again
+    window.history.replaceState(null, '', window.location.pathname);
+    if (result.error) {
+      setNotice({ kind: 'error', text: formatLoadError(result.error) });
+      return;
+    }
+    openNewProject(t('shared_project'), result.commands, result.board);
+  }, []);
+
+  // --- Project Management ---
+
+  // Flush pending autosave before leaving the current project
+  const saveCurrentProject = () => {
+    setProjects(prev => prev.map(p => p.id === currentProjectId ? updateProjectProgram(p, commands, boardSettings) : p));
+  };
+
+  // Tell why a project stays closed, see canOpenProject
+  const showProjectError = (project: Project) => {
+    const { error } = loadProjectProgram(project);
+    if (!error) return;
+    setNotice({ kind: 'error', text: t('project_not_opened').replace('{name}', project.name).replace('{error}', formatLoadError(error)) });
+  };
+
+  useEffect(() => {
+    if (skippedProject) showProjectError(skippedProject);
+  }, []);
+
+  const switchToProject = (project: Project) => {
+    const { commands: loaded, board } = loadProjectProgram(project);
+    endSession();
+    setErrorCommandId(null);
+    if (!activeChallenge) resetPosition(getStartState(board));
+    setActiveContainerId(null);
+    setCurrentProjectId(project.id);
+    resetCommands(loaded);
+    setBoardSettings(board);
+  };
+
+  const openNewProject = (name: string, loaded: Command[] = [], board: BoardSettings = DEFAULT_BOARD_SETTINGS) => {
+    saveCurrentProject();
+    const project = createProject(name, loaded, currentProject?.studentName, board);
+    setProjects(prev => [...prev, project]);
+    switchToProject(project);
+  };
+
+  const handleOpenProject = (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!project) return;
+    if (!canOpenProject(project)) showProjectError(project);
+    else if (id !== currentProjectId) {
+      saveCurrentProject();
+      switchToProject(project);
+    }
+    setIsProjectsOpen(false);
+  };
+
+  const handleCreateProject = () => {
+    openNewProject(`${t('project')} ${projects.length + 1}`);
+    setIsProjectsOpen(false);
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, name } : p));
+  };
+
+  const handleStudentNameChange = (id: string, studentName: string) => {
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, studentName } : p));
+  };
+
+  const handleDuplicateProject = (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!project) return;
+    // The current project may have unsaved edits
+    const source = id === currentProjectId ? updateProjectProgram(project, commands, boardSettings) : project;
+    setProjects(prev => [...prev, duplicateProject(source, `${project.name} (${t('copy')})`)]);
+  };
+
+  const handleDeleteProject = (id: string) => {
+    const remaining = projects.filter(p => p.id !== id);
+    if (id === currentProjectId) {
+      // Move to the most recent project left, or start a fresh one
+      const next = [...remaining].sort((a, b) => b.updatedAt - a.updatedAt).find(canOpenProject) ?? createProject(`${t('project')} 1`);
+      setProjects(remaining.includes(next) ? remaining : [...remaining, next]);
+      switchToProject(next);
+      return;
+    }
+    setProjects(remaining);
+  };
+
   // --- View Logic ---
 
+  const handleChangeView = (view: ProgramView) => {
+    // Ids are regenerated by the parser, so loop navigation can't survive the text view
+    if (view === 'text' || programView === 'text') setActiveContainerId(null);
+    setHasTextErrors(false);
+    setProgramView(view);
+  };
+
+  // Loops from the root down to the one being edited, for the breadcrumbs
+  const containerPath = activeContainerId ? getCommandPath(commands, activeContainerId) : [];
+
+  // The edited loop may disappear (deleted, undone...): go back to the main program
+  useEffect(() => {
+    if (activeContainerId && !findCommand(commands, activeContainerId)) setActiveContainerId(null);
+  }, [commands, activeContainerId]);
+
   // Get the commands for the currently viewed container
   const getVisibleCommands = () => {
-    const findById = (list: Command[], id: string): Command | null => {
-        for (const c of list) {
-            if (c.id === id) return c;
-            if (c.children) {
-                const found = findById(c.children, id);
-                if (found) return found;
-            }
-        }
-        return null;
-    }
-
     if (!activeContainerId) return commands;
-    const container = findById(commands, activeContainerId);
+    const container = findCommand(commands, activeContainerId);
     return container ? (container.children || []) : [];
   };
 
@@ -263,13 +865,85 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex gap-2 items-center">
+
+           {/* Projects */}
+           <button
+             onClick={() => setIsProjectsOpen(true)}
+             className="flex items-center gap-2 px-3 py-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 transition-colors max-w-[12rem]"
+             title={t('projects')}
+             aria-label={t('projects')}
+           >
+             <FolderOpen size={20} className="flex-shrink-0" />
+             <span className="text-sm font-semibold truncate hidden sm:inline">{currentProject?.name}</span>
+           </button>
+           {isProjectsOpen && (
+             <ProjectManager
+               projects={projects}
+               currentProjectId={currentProjectId}
+               onOpen={handleOpenProject}
+               onCreate={handleCreateProject}
+               onRename={handleRenameProject}
+               onStudentNameChange={handleStudentNameChange}
+               onDuplicate={handleDuplicateProject}
+               onDelete={handleDeleteProject}
+               onClose={() => setIsProjectsOpen(false)}
+               t={t}
+             />
+           )}
            
+           {/* Challenges */}
+           <button
+             onClick={() => setIsChallengesOpen(true)}
+             className={`p-2 rounded-full transition-colors ${activeChallenge ? 'bg-yellow-100 text-yellow-600 dark:bg-yellow-900/40 dark:text-yellow-400' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+             title={t('challenges')}
+             aria-label={t('challenges')}
+             aria-pressed={!!activeChallenge}
+           >
+             <Trophy size={20} />
+           </button>
+           {isChallengesOpen && (
+             <ChallengePicker
+               challenges={allChallenges}
+               stars={challengeStars}
+               activeId={activeChallengeId}
+               onSelect={(id) => startChallenge(allChallenges.find(c => c.id === id))}
+               onCreate={() => {
+                 setIsChallengesOpen(false);
+                 setIsChallengeEditorOpen(true);
+               }}
+               onImport={() => {
+                 setIsChallengesOpen(false);
+                 fileInputRef.current?.click();
+               }}
+               onExportFile={handleExportChallenge}
+               onCopyLink={handleShareChallenge}
+               onDelete={handleDeleteChallenge}
+               onClose={() => setIsChallengesOpen(false)}
+               t={t}
+             />
+           )}
+           {isChallengeEditorOpen && (
+             <ChallengeEditor
+               solution={commands}
+               layout={boardSettings.layout}
+               unit={boardSettings.unit}
+               onSave={(challenge) => {
+                 setIsChallengeEditorOpen(false);
+                 addCustomChallenge(challenge);
+               }}
+               onClose={() => setIsChallengeEditorOpen(false)}
+               t={t}
+             />
+           )}
+
            {/* Settings Dropdown Toggle */}
            <div className="relative mr-2">
              <button 
                 onClick={() => setIsSettingsOpen(!isSettingsOpen)}
                 className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
                 title={t('settings')}
+                aria-label={t('settings')}
+                aria-expanded={isSettingsOpen}
              >
                 <Settings size={20} className="text-slate-600 dark:text-slate-300" />
              </button>
@@ -285,18 +959,21 @@ const App: React.FC = () => {
                     <div className="flex bg-slate-100 dark:bg-slate-700 rounded-lg p-1">
                       <button 
                         onClick={() => setTheme('light')} 
+                        aria-pressed={theme === 'light'}
                         className={`flex-1 flex items-center justify-center py-1 rounded-md text-xs ${theme === 'light' ? 'bg-white dark:bg-slate-600 shadow text-brand-600' : 'text-slate-500'}`}
                       >
                          <Sun size={14} className="mr-1" /> {t('theme_light')}
                       </button>
                       <button 
                         onClick={() => setTheme('dark')} 
+                        aria-pressed={theme === 'dark'}
                         className={`flex-1 flex items-center justify-center py-1 rounded-md text-xs ${theme === 'dark' ? 'bg-white dark:bg-slate-600 shadow text-brand-600' : 'text-slate-500'}`}
                       >
                          <Moon size={14} className="mr-1" /> {t('theme_dark')}
                       </button>
                       <button 
                         onClick={() => setTheme('system')} 
+                        aria-pressed={theme === 'system'}
                         className={`flex-1 flex items-center justify-center py-1 rounded-md text-xs ${theme === 'system' ? 'bg-white dark:bg-slate-600 shadow text-brand-600' : 'text-slate-500'}`}
                       >
                          <Monitor size={14} className="mr-1" /> {t('theme_system')}
@@ -305,13 +982,14 @@ const App: React.FC = () => {
                   </div>
 
                   {/* Language Selector */}
-                  <div>
+                  <div className="mb-4">
                     <label className="text-xs text-slate-500 dark:text-slate-400 mb-1 block">{t('language')}</label>
                     <div className="grid grid-cols-2 gap-2">
                        {(['ca', 'es', 'gl', 'eu', 'en'] as Language[]).map(l => (
                          <button
                            key={l}
                            onClick={() => setLanguage(l)}
+                           aria-pressed={language === l}
                            className={`px-2 py-1 text-xs rounded border ${language === l ? 'bg-brand-50 border-brand-200 text-brand-700 dark:bg-brand-900/30 dark:border-brand-700 dark:text-brand-300' : 'border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
                          >
                            {l === 'ca' ? 'Català' : l === 'es' ? 'Español' : l === 'gl' ? 'Galego' : l === 'eu' ? 'Euskera' : 'English'}
@@ -319,6 +997,12 @@ const App: React.FC = () => {
                        ))}
                     </div>
                   </div>
+
+                  {/* Keyboard Shortcuts */}
+                  <div>
+                    <h4 className="text-xs text-slate-500 dark:text-slate-400 mb-1">{t('keyboard_shortcuts')}</h4>
+                    <p className="text-[11px] text-slate-600 dark:text-slate-300">{t('keyboard_help')}</p>
+                  </div>
                </div>
              )}
              
@@ -328,18 +1012,79 @@ const App: React.FC = () => {
              )}
            </div>
 
-           {!isPlaying ? (
+           {/* Speed Control */}
+           <div className="hidden md:flex items-center gap-1 mr-2 text-slate-500 dark:text-slate-400" title={t('speed')}>
+             <Snail size={16} />
+             <input
+               type="range"
+               min={0}
+               max={SPEED_LEVELS.length - 1}
+               value={speedIndex}
+               onChange={(e) => setSpeed(SPEED_LEVELS[parseInt(e.target.value)].id)}
+               className="w-20 accent-brand-600"
+               aria-label={t('speed')}
+             />
+             <Rabbit size={16} />
+             <span className="text-xs w-16">{t(`speed_${speed}`)}</span>
+           </div>
+
+           {/* Drive Mode */}
+           <button
+             onClick={handleToggleDrive}
+             disabled={isPlaying}
+             className={`p-2 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${isDriving ? 'bg-brand-100 text-brand-600 dark:bg-brand-900/40 dark:text-brand-400' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+             title={t('drive_mode')}
+             aria-label={t('drive_mode')}
+             aria-pressed={isDriving}
+           >
+             <Gamepad2 size={20} />
+           </button>
+
+           {/* Debugger Controls */}
+           <div className="flex items-center gap-1 bg-slate-200 dark:bg-slate-700 rounded-full p-1">
+             <button
+               onClick={handleStepBack}
+               disabled={!isPaused || stepIndex < 0}
+               className="p-2 rounded-full text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+               title={t('step_back')}
+               aria-label={t('step_back')}
+             >
+               <StepBack size={18} />
+             </button>
+             <button
+               onClick={handleStep}
+               disabled={commands.length === 0 || (isPlaying && !isPaused)}
+               className="p-2 rounded-full text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+               title={t('step')}
+               aria-label={t('step')}
+             >
+               <StepForward size={18} />
+             </button>
+           </div>
+
+           {!isPlaying || isPaused ? (
              <button
                onClick={handleRun}
                disabled={commands.length === 0}
+               title={`${isPaused ? t('resume') : t('run')} (Enter)`}
                className="flex items-center gap-2 px-6 py-2 bg-green-500 hover:bg-green-600 text-white rounded-full font-bold shadow-lg transition-transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
              >
-               <Play size={20} fill="currentColor" /> {t('run')}
+               <Play size={20} fill="currentColor" /> {isPaused ? t('resume') : t('run')}
              </button>
            ) : (
+             <button
+               onClick={handlePause}
+               className="flex items-center gap-2 px-6 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-full font-bold shadow-lg transition-transform active:scale-95"
+             >
+               <Pause size={20} fill="currentColor" /> {t('pause')}
+             </button>
+           )}
+
+           {isPlaying && (
              <button
                onClick={handleStop}
-               className="flex items-center gap-2 px-6 py-2 bg-red-500 hover:bg-red-600 text-white rounded-full font-bold shadow-lg transition-transform active:scale-95 animate-pulse"
+               title={`${t('stop')} (Esc)`}
+               className={`flex items-center gap-2 px-6 py-2 bg-red-500 hover:bg-red-600 text-white rounded-full font-bold shadow-lg transition-transform active:scale-95 ${isPaused ? '' : 'animate-pulse'}`}
              >
                <StopCircle size={20} /> {t('stop')}
              </button>
@@ -360,36 +1105,221 @@ const App: React.FC = () => {
         
         {/* Left Sidebar: Commands */}
         <div className="w-full lg:w-48 flex-shrink-0">
-           <CommandPalette onAddCommand={handleAddCommand} disabled={isPlaying} t={t} />
+           <CommandPalette onAddCommand={handleAddCommand} disabled={isPlaying} allowedTypes={activeChallenge?.allowedBlocks} t={t} />
         </div>
 
         {/* Center: Board */}
-        <div className="flex-1 flex justify-center items-start">
-           <GridBoard robotState={robotState} path={path} isDarkMode={isDarkModeComputed()} />
+        <div className="flex-1 flex flex-col items-center gap-3">
+           {activeChallenge && (
+             <ChallengeBar
+               challenge={activeChallenge}
+               result={challengeResult}
+               bestStars={challengeStars[activeChallenge.id] || 0}
+               onExit={handleExitChallenge}
+               t={t}
+             />
+           )}
+           <GridBoard
+             robotState={robotState}
+             path={path}
+             target={activeChallenge?.target}
+             board={activeBoard}
+             // Challenges keep their board, and the start can't move under a running program
+             onBoardChange={activeChallenge || isPlaying ? undefined : handleBoardChange}
+             isDarkMode={isDarkModeComputed()}
+             transitionDuration={stepDelay}
+             crashed={hasCrashed}
+             fileName={toFileName(currentProject?.name ?? '')}
+             onExportError={() => setNotice({ kind: 'error', text: t('export_failed') })}
+             t={t}
+           />
+           {isDriving && (
+             <DrivePad
+               onDrive={handleDrive}
+               penDown={robotState.penDown}
+               allowedTypes={activeChallenge?.allowedBlocks}
+               onClose={handleToggleDrive}
+               t={t}
+             />
+           )}
+           {analysis && <AnalysisPanel analysis={analysis} unitLabel={t(UNIT_LABEL_KEYS[activeBoard.unit])} onClose={() => setAnalysis(null)} t={t} />}
+           {isSuggestionsOpen && (
+             <SuggestionsPanel
+               suggestions={suggestions}
+               onApply={handleApplySuggestion}
+               disabled={isPlaying}
+               language={language}
+               onClose={() => setIsSuggestionsOpen(false)}
+               t={t}
+             />
+           )}
         </div>
       </div>
 
       {/* Bottom: Timeline */}
-      <div className="w-full h-40 mt-6 bg-white dark:bg-slate-800 rounded-xl shadow border border-slate-200 dark:border-slate-700 p-4 overflow-hidden flex flex-col">
+      <div className={`w-full ${programView === 'blocks' ? 'h-40' : 'h-64'} mt-6 bg-white dark:bg-slate-800 rounded-xl shadow border border-slate-200 dark:border-slate-700 p-4 overflow-hidden flex flex-col`}>
          <div className="flex justify-between items-center mb-2">
-            <h3 className="text-xs font-bold text-slate-400 dark:text-slate-500 uppercase">
-                {t('sequence')} {activeContainerId ? `(${t('loop_view')})` : `(${t('main_view')})`}
-            </h3>
-            <span className="text-xs text-slate-400 dark:text-slate-500">
-                {commands.length === 0 ? '0 ' + t('commands') : t('scroll_hint')}
-            </span>
+            <div className="flex items-center gap-3">
+              <h3 className="text-xs font-bold text-slate-400 dark:text-slate-500 uppercase">
+                  {t('sequence')}
+              </h3>
+              {/* Blocks / Tree / Text toggle */}
+              <div className="flex bg-slate-100 dark:bg-slate-700 rounded-lg p-0.5">
+                {(['blocks', 'tree', 'text'] as ProgramView[]).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => handleChangeView(view)}
+                    disabled={view !== 'text' && hasTextErrors}
+                    title={view !== 'text' && hasTextErrors ? t('fix_errors_first') : undefined}
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded-md text-xs disabled:opacity-50 disabled:cursor-not-allowed ${programView === view ? 'bg-white dark:bg-slate-600 shadow text-brand-600' : 'text-slate-500'}`}
+                  >
+                    {view === 'blocks' ? <Blocks size={12} /> : view === 'tree' ? <ListTree size={12} /> : <Code size={12} />} {t(`view_${view}`)}
+                  </button>
+                ))}
+              </div>
+              {programView !== 'text' && (
+                <Breadcrumbs path={containerPath} onNavigate={setActiveContainerId} t={t} />
+              )}
+            </div>
+            {notice && (
+              <span className={`text-xs font-semibold ${notice.kind === 'error' ? 'text-red-500 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                {notice.text}
+              </span>
+            )}
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-slate-400 dark:text-slate-500">
+                  {commands.length === 0 ? '0 ' + t('commands') : t('scroll_hint')}
+              </span>
+              {/* Simplification suggestions */}
+              <button
+                onClick={() => setIsSuggestionsOpen(!isSuggestionsOpen)}
+                className={`relative p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 ${suggestions.length > 0 ? 'text-yellow-500' : 'text-slate-500 dark:text-slate-400'}`}
+                title={t('suggestions')}
+                aria-label={`${t('suggestions')}: ${suggestions.length}`}
+                aria-pressed={isSuggestionsOpen}
+              >
+                <Lightbulb size={16} />
+                {suggestions.length > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[14px] px-0.5 rounded-full bg-yellow-400 text-yellow-900 text-[9px] font-bold leading-[14px] text-center">
+                    {suggestions.length}
+                  </span>
+                )}
+              </button>
+              {/* Undo / Redo */}
+              <div className="flex items-center gap-1 text-slate-500 dark:text-slate-400">
+                <button
+                  onClick={handleUndo}
+                  disabled={isPlaying || history.past.length === 0}
+                  className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={`${t('undo')} (Ctrl+Z)`}
+                  aria-label={t('undo')}
+                >
+                  <Undo2 size={16} />
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={isPlaying || history.future.length === 0}
+                  className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={`${t('redo')} (Ctrl+Shift+Z)`}
+                  aria-label={t('redo')}
+                >
+                  <Redo2 size={16} />
+                </button>
+              </div>
+              {/* File actions */}
+              <div className="flex items-center gap-1 text-slate-500 dark:text-slate-400">
+                <button
+                  onClick={handleExport}
+                  disabled={commands.length === 0}
+                  className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={t('export_program')}
+                  aria-label={t('export_program')}
+                >
+                  <Download size={16} />
+                </button>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isPlaying}
+                  className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={t('import_program')}
+                  aria-label={t('import_program')}
+                >
+                  <Upload size={16} />
+                </button>
+                <button
+                  onClick={handleShare}
+                  disabled={commands.length === 0}
+                  className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={t('share_link')}
+                  aria-label={t('share_link')}
+                >
+                  <Link size={16} />
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImport(file);
+                    e.target.value = ''; // Allow importing the same file again
+                  }}
+                />
+              </div>
+            </div>
          </div>
          <div className="flex-1 min-h-0">
-            <Timeline 
-              commands={getVisibleCommands()} 
-              onRemove={handleRemoveCommand}
-              onUpdate={handleUpdateCommand}
-              onEnterNested={(id) => setActiveContainerId(id)}
-              parentId={activeContainerId || undefined}
-              isNestedView={!!activeContainerId}
-              onGoBack={() => setActiveContainerId(null)}
-              t={t}
-            />
+            {programView === 'text' ? (
+              <ProgramTextEditor
+                commands={commands}
+                language={language}
+                onChange={(parsed) => editCommands(() => parsed, 'text')}
+                onErrorChange={setHasTextErrors}
+                disabled={isPlaying}
+                t={t}
+              />
+            ) : programView === 'tree' ? (
+              <ProgramTree
+                commands={commands}
+                selectedContainerId={activeContainerId}
+                onSelectContainer={setActiveContainerId}
+                onRemove={handleRemoveCommand}
+                onUpdate={handleUpdateCommand}
+                onRename={handleRenameCommand}
+                onConditionChange={handleConditionChange}
+                activeCommandId={currentStep?.command.id}
+                activeLoops={currentStep?.loops}
+                errorCommandId={errorCommandId ?? undefined}
+                procedures={procedureHandlers}
+                unit={activeBoard.unit}
+                disabled={isPlaying}
+                t={t}
+              />
+            ) : (
+              <Timeline 
+                commands={getVisibleCommands()} 
+                onRemove={handleRemoveCommand}
+                onUpdate={handleUpdateCommand}
+                onRename={handleRenameCommand}
+                onConditionChange={handleConditionChange}
+                onEnterNested={(id) => setActiveContainerId(id)}
+                parentId={activeContainerId || undefined}
+                isNestedView={!!activeContainerId}
+                containerType={containerPath[containerPath.length - 1]?.type}
+                onGoBack={() => setActiveContainerId(containerPath[containerPath.length - 2]?.id ?? null)}
+                onMove={handleMoveCommand}
+                onInsert={handleInsertCommand}
+                onKeyboardMove={handleKeyboardMove}
+                disabled={isPlaying}
+                activeCommandId={currentStep?.command.id}
+                activeLoops={currentStep?.loops}
+                errorCommandId={errorCommandId ?? undefined}
+                procedures={procedureHandlers}
+                unit={activeBoard.unit}
+                t={t}
+              />
+            )}
          </div>
       </div>
 
@@ -414,6 +1344,7 @@ const App: React.FC = () => {
         </p>
       </footer>
 
+      <Announcer message={announcement} />
     </div>
   );
 };
@@ -0,0 +1,87 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+import React from 'react';
+import { X, Ruler, CircleCheck, CircleDashed } from 'lucide-react';
+import { PathAnalysis } from '../utils/geometry';
+
+interface AnalysisPanelProps {
+  analysis: PathAnalysis;
+  unitLabel: string; // Lengths are in the program's distance unit
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+// Two decimals at most, without trailing zeros
+const fmt = (n: number) => String(Math.round(n * 100) / 100);
+
+// Open line: how far and how many degrees it is from closing
+const getGapText = (analysis: PathAnalysis, unitLabel: string, t: (key: string) => string) => {
+  if (analysis.lines === 0) return t('analysis_nothing_drawn');
+  if (analysis.lines > 1) return t('analysis_several_lines').replace('{count}', String(analysis.lines));
+  const parts = [t('analysis_open').replace('{gap}', `${fmt(analysis.gap)} ${unitLabel}`)];
+  if (Math.abs(analysis.turnGap) >= 0.5) {
+    const key = analysis.turnGap < 0 ? 'analysis_turn_short' : 'analysis_turn_over';
+    parts.push(t(key).replace('{angle}', fmt(Math.abs(analysis.turnGap))));
+  }
+  return parts.join('. ');
+};
+
+// What the last run drew, in numbers
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis, unitLabel, onClose, t }) => {
+  const { polygon } = analysis;
+  const stats = [
+    { label: t('analysis_distance'), value: `${fmt(analysis.distance)} ${unitLabel}` },
+    { label: t('analysis_turning'), value: `${fmt(analysis.turning)}°` },
+    ...(polygon ? [
+      { label: t('analysis_corners'), value: String(polygon.sides.length) },
+      { label: t('analysis_perimeter'), value: `${fmt(polygon.perimeter)} ${unitLabel}` },
+      {
+        label: t('analysis_area'),
+        value: polygon.area !== undefined ? `${fmt(polygon.area)} ${unitLabel}²` : t('analysis_area_crossed'),
+      },
+    ] : []),
+  ];
+
+  return (
+    <div className="w-full max-w-[800px] flex flex-col gap-2 p-3 rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-800 text-sm">
+      <div className="flex items-center gap-2">
+        <Ruler size={18} className="flex-shrink-0 text-brand-500" />
+        <span className="flex-1 font-bold text-slate-800 dark:text-slate-100">{t('analysis')}</span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500"
+          title={t('close')}
+          aria-label={t('close')}
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <p className={`flex items-center gap-1 pl-7 text-xs font-semibold ${analysis.closed ? 'text-green-700 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}`}>
+        {analysis.closed ? <CircleCheck size={14} /> : <CircleDashed size={14} />}
+        {analysis.closed
+          ? `${t('analysis_closed')}${polygon ? `: ${t(`shape_${polygon.shape}`).replace('{count}', String(polygon.sides.length))}` : ''}`
+          : getGapText(analysis, unitLabel, t)}
+      </p>
+
+      <dl className="grid grid-cols-2 sm:grid-cols-5 gap-x-4 gap-y-1 pl-7 text-xs">
+        {stats.map(stat => (
+          <div key={stat.label}>
+            <dt className="text-slate-400 dark:text-slate-500">{stat.label}</dt>
+            <dd className="font-mono text-slate-700 dark:text-slate-200">{stat.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {polygon && (
+        <p className="pl-7 text-xs text-slate-500 dark:text-slate-400">
+          {t('analysis_angles')}: <span className="font-mono">{polygon.angles.map(angle => `${fmt(angle)}°`).join(', ')}</span>
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Spoken feedback for screen readers: the block being run and where it left the robot
+
+import React from 'react';
+import { BoardSettings, CommandType } from '../types';
+import { TraceStep } from '../utils/interpreter';
+import { formatCoordinate, toGridCoordinates } from '../utils/board';
+import { UNIT_LABEL_KEYS, getHeading } from '../utils/units';
+import { getCommandLabel, getConditionLabel, PEN_COLOR_KEYS } from './CommandValueEditor';
+
+// Value as read out, e.g. "2 cells" or "90°". Expressions are read as written
+const describeValue = (step: TraceStep, board: BoardSettings, t: (key: string) => string) => {
+  const { type, value, expr, name, condition } = step.command;
+  if (type === CommandType.SET_VARIABLE) return `${name} = ${expr ?? value}`;
+  if (type === CommandType.IF) return getConditionLabel(condition, t);
+  if (expr) return expr;
+  switch (type) {
+    case CommandType.FORWARD:
+    case CommandType.BACKWARD: return `${value} ${t(UNIT_LABEL_KEYS[board.unit])}`;
+    case CommandType.TURN_LEFT:
+    case CommandType.TURN_RIGHT: return `${value}°`;
+    case CommandType.REPEAT: return `${value} ${t('times')}`;
+    case CommandType.SET_COLOR: return t(PEN_COLOR_KEYS[value] ?? PEN_COLOR_KEYS[0]);
+    case CommandType.SET_WIDTH: return `${value} px`;
+    case CommandType.CALL: return name ?? '';
+    default: return '';
+  }
+};
+
+// E.g. "Forward 2 cells. X 0, Y 2, heading 0°"
+export const describeStep = (step: TraceStep, board: BoardSettings, t: (key: string) => string) => {
+  const { x, y } = toGridCoordinates(step.state, board);
+  const position = t('announce_position')
+    .replace('{x}', formatCoordinate(x))
+    .replace('{y}', formatCoordinate(y))
+    .replace('{heading}', String(getHeading(step.state.angle)));
+  return `${[getCommandLabel(step.command.type, t), describeValue(step, board, t)].filter(Boolean).join(' ')}. ${position}`;
+};
+
+// Always in the page, so changes to the message are announced
+export const Announcer: React.FC<{ message: string }> = ({ message }) => (
+  <div aria-live="polite" aria-atomic="true" className="sr-only">{message}</div>
+);
@@ -0,0 +1,50 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+import React from 'react';
+import { ChevronRight, House } from 'lucide-react';
+import { Command, CommandType } from '../types';
+import { getCommandLabel, getConditionLabel } from './CommandValueEditor';
+
+interface BreadcrumbsProps {
+  path: Command[]; // Loops and procedures from the outermost to the one being edited
+  onNavigate: (id: string | null) => void; // null = main program
+  t: (key: string) => string;
+}
+
+// What tells this body apart from its siblings: procedure name, repeat count or condition
+const getDetail = (cmd: Command, t: (key: string) => string) => {
+  switch (cmd.type) {
+    case CommandType.DEFINE: return cmd.name;
+    case CommandType.REPEAT: return `×${cmd.expr ?? cmd.value}`;
+    case CommandType.IF: return getConditionLabel(cmd.condition, t);
+    default: return '';
+  }
+};
+
+export const Breadcrumbs: React.FC<BreadcrumbsProps> = ({ path, onNavigate, t }) => {
+  return (
+    <nav className="flex items-center gap-0.5 text-xs min-w-0 overflow-x-auto" aria-label={t('breadcrumbs')}>
+      <button
+        onClick={() => onNavigate(null)}
+        className={`flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-slate-100 dark:hover:bg-slate-700 ${path.length === 0 ? 'font-bold text-brand-600 dark:text-brand-400' : 'text-slate-500 dark:text-slate-400'}`}
+      >
+        <House size={12} /> {t('main_view')}
+      </button>
+      {path.map((loop, index) => (
+        <React.Fragment key={loop.id}>
+          <ChevronRight size={12} className="flex-shrink-0 text-slate-400" />
+          <button
+            onClick={() => onNavigate(loop.id)}
+            className={`whitespace-nowrap px-1.5 py-0.5 rounded hover:bg-slate-100 dark:hover:bg-slate-700 ${index === path.length - 1 ? 'font-bold text-purple-600 dark:text-purple-400' : 'text-slate-500 dark:text-slate-400'}`}
+          >
+            {getCommandLabel(loop.type, t)} {getDetail(loop, t)}
+          </button>
+        </React.Fragment>
+      ))}
+    </nav>
+  );
+};
@@ -0,0 +1,374 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Challenge mode: the list of challenges, the editor for teachers and the bar above the board with the result
+
+import React, { useMemo, useState } from 'react';
+import { X, Star, Trophy, Lightbulb, CircleCheck, CircleX, Plus, Upload, Download, Link, Trash2 } from 'lucide-react';
+import { BoardLayout, Command, CommandType, DistanceUnit } from '../types';
+import { COLORS, DEFAULT_PEN_WIDTH, GRID_SIZE, CANVAS_WIDTH, CANVAS_HEIGHT, START_X, START_Y, START_ANGLE } from '../constants';
+import { Challenge, ChallengeResult, getChallengeText, isCustomChallenge, createCustomChallenge, checkChallenge, getChallengeBoard } from '../utils/challenges';
+import { renderThumbnail } from '../utils/drawing';
+import { runProgram } from '../utils/interpreter';
+import { getBoard, getStartState } from '../utils/board';
+import { getCommandLabel } from './CommandValueEditor';
+
+const Stars: React.FC<{ count: number; size: number }> = ({ count, size }) => (
+  <span className="flex items-center gap-0.5">
+    {[1, 2, 3].map(n => (
+      <Star key={n} size={size} className={n <= count ? 'text-yellow-400' : 'text-slate-300 dark:text-slate-600'} fill={n <= count ? 'currentColor' : 'none'} />
+    ))}
+  </span>
+);
+
+// Target figure over the maze, if any
+const renderTarget = (challenge: Challenge) => {
+  const segments = challenge.target.map(points => ({ points, color: COLORS.path, width: DEFAULT_PEN_WIDTH }));
+  return renderThumbnail(segments, getChallengeBoard(challenge));
+};
+
+const modalClass = 'fixed inset-x-4 top-16 md:left-1/2 md:-translate-x-1/2 md:w-[40rem] max-h-[80vh] z-50 flex flex-col bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700';
+const headerButtonClass = 'flex items-center gap-1 px-3 py-1 text-xs font-semibold rounded-full bg-brand-500 hover:bg-brand-600 text-white';
+
+interface ChallengePickerProps {
+  challenges: Challenge[]; // Built-in first, then custom ones
+  stars: Record<string, number>; // Best stars per challenge
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void; // Open the editor with the current program as solution
+  onImport: () => void;
+  onExportFile: (challenge: Challenge) => void;
+  onCopyLink: (challenge: Challenge) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+export const ChallengePicker: React.FC<ChallengePickerProps> = ({
+  challenges,
+  stars,
+  activeId,
+  onSelect,
+  onCreate,
+  onImport,
+  onExportFile,
+  onCopyLink,
+  onDelete,
+  onClose,
+  t
+}) => {
+  const thumbnails = useMemo(() => new Map(challenges.map(challenge => [challenge.id, renderTarget(challenge)])), [challenges]);
+
+  // Built-in ones by difficulty, custom ones as they were added
+  const sorted = [
+    ...challenges.filter(c => !isCustomChallenge(c)).sort((a, b) => a.level - b.level),
+    ...challenges.filter(isCustomChallenge),
+  ];
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 z-40 bg-black/30" onClick={onClose}></div>
+
+      <div className={modalClass}>
+        <div className="flex justify-between items-center p-4 border-b border-slate-200 dark:border-slate-700">
+          <h3 className="font-bold text-slate-800 dark:text-slate-200 text-sm uppercase">{t('challenges')}</h3>
+          <div className="flex items-center gap-2">
+            <button onClick={onCreate} className={headerButtonClass} title={t('new_challenge_hint')}>
+              <Plus size={14} /> {t('new_challenge')}
+            </button>
+            <button onClick={onImport} className={headerButtonClass}>
+              <Upload size={14} /> {t('import_challenge')}
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500"
+              title={t('close')}
+              aria-label={t('close')}
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <ul className="overflow-y-auto p-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {sorted.map(challenge => (
+            <li
+              key={challenge.id}
+              className={`flex gap-3 p-2 rounded-lg border ${challenge.id === activeId ? 'border-brand-500 bg-brand-50 dark:bg-brand-900/30' : 'border-slate-200 dark:border-slate-700'}`}
+            >
+              <button
+                onClick={() => onSelect(challenge.id)}
+                className="flex-shrink-0 rounded overflow-hidden border border-slate-200 dark:border-slate-600 hover:ring-2 hover:ring-brand-500"
+                title={t('start_challenge')}
+              >
+                <img src={thumbnails.get(challenge.id)} alt={getChallengeText(challenge, 'title', t)} className="w-24 h-[4.5rem] object-cover" />
+              </button>
+              <div className="flex-1 min-w-0 flex flex-col gap-1">
+                <button onClick={() => onSelect(challenge.id)} className="text-left text-sm font-semibold text-slate-800 dark:text-slate-100 truncate hover:text-brand-600">
+                  {getChallengeText(challenge, 'title', t)}
+                </button>
+                <span className="text-[10px] font-bold uppercase text-slate-400">{t(`challenge_level_${challenge.level}`)}</span>
+                <Stars count={stars[challenge.id] || 0} size={14} />
+                {isCustomChallenge(challenge) && (
+                  <div className="flex gap-1 mt-auto text-slate-500 dark:text-slate-400">
+                    <button onClick={() => onExportFile(challenge)} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700" title={t('export_challenge')} aria-label={t('export_challenge')}>
+                      <Download size={14} />
+                    </button>
+                    <button onClick={() => onCopyLink(challenge)} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700" title={t('share_link')} aria-label={t('share_link')}>
+                      <Link size={14} />
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(t('confirm_delete_challenge').replace('{name}', getChallengeText(challenge, 'title', t)))) onDelete(challenge.id);
+                      }}
+                      className="p-1 rounded hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900/40"
+                      title={t('delete')}
+                      aria-label={t('delete')}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </>
+  );
+};
+
+interface ChallengeBarProps {
+  challenge: Challenge;
+  result: ChallengeResult | null; // Null until the program runs to the end
+  bestStars: number;
+  onExit: () => void;
+  t: (key: string) => string;
+}
+
+// What to try next, from the result of the last run
+const getResultHint = (challenge: Challenge, result: ChallengeResult, t: (key: string) => string) => {
+  if (result.passed) {
+    return result.stars < 3 ? t('challenge_fewer_blocks').replace('{count}', String(challenge.bestBlocks)) : null;
+  }
+  if (result.forbiddenBlocks.length > 0) {
+    return t('challenge_forbidden_blocks').replace('{blocks}', result.forbiddenBlocks.map(type => getCommandLabel(type, t)).join(', '));
+  }
+  if (result.tooManyBlocks) return t('challenge_too_many_blocks').replace('{count}', String(challenge.maxBlocks));
+  if (result.missedGoal && result.missing === 0 && result.extra === 0) return t('challenge_missed_goal');
+  if (result.missing > 0 && result.extra === 0) return t('challenge_missing_lines');
+  if (result.extra > 0 && result.missing === 0) return t('challenge_extra_lines');
+  return getChallengeText(challenge, 'hint', t);
+};
+
+export const ChallengeBar: React.FC<ChallengeBarProps> = ({ challenge, result, bestStars, onExit, t }) => {
+  const hint = result ? getResultHint(challenge, result, t) : null;
+
+  return (
+    <div className="w-full max-w-[800px] flex flex-col gap-2 p-3 rounded-lg border border-yellow-300 bg-yellow-50 dark:border-yellow-700 dark:bg-yellow-900/20 text-sm">
+      <div className="flex items-start gap-2">
+        <Trophy size={18} className="flex-shrink-0 text-yellow-500 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-slate-800 dark:text-slate-100">{getChallengeText(challenge, 'title', t)}</span>
+            <span className="text-[10px] font-bold uppercase text-slate-400">{t(`challenge_level_${challenge.level}`)}</span>
+            <Stars count={bestStars} size={12} />
+          </div>
+          <p className="text-xs text-slate-600 dark:text-slate-300">{getChallengeText(challenge, 'description', t)}</p>
+          {challenge.maxBlocks !== undefined && (
+            <p className="text-[10px] font-semibold text-slate-500 dark:text-slate-400">{t('challenge_max_blocks').replace('{count}', String(challenge.maxBlocks))}</p>
+          )}
+        </div>
+        <button
+          onClick={onExit}
+          className="p-1 rounded-full hover:bg-yellow-200 dark:hover:bg-yellow-800/50 text-slate-500"
+          title={t('exit_challenge')}
+          aria-label={t('exit_challenge')}
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {result && (
+        <div className={`flex flex-wrap items-center gap-x-3 gap-y-1 pl-7 text-xs ${result.passed ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          <span className="flex items-center gap-1 font-bold">
+            {result.passed ? <CircleCheck size={14} /> : <CircleX size={14} />}
+            {result.passed ? t('challenge_passed') : t('challenge_failed')}
+          </span>
+          {result.passed && <Stars count={result.stars} size={14} />}
+          <span className="text-slate-500 dark:text-slate-400">
+            {t('challenge_block_count').replace('{count}', String(result.blockCount))}
+          </span>
+          {hint && (
+            <span className="flex items-center gap-1 text-slate-600 dark:text-slate-300">
+              <Lightbulb size={12} className="text-yellow-500" /> {hint}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ChallengeEditorProps {
+  solution: Command[]; // The program on screen, used as reference solution
+  layout: BoardLayout; // Maze of the program board, kept by the challenge
+  unit: DistanceUnit; // Distance unit of the program board, also kept
+  onSave: (challenge: Challenge) => void;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+const fieldClass = 'w-full text-sm border rounded px-2 py-1 bg-white dark:bg-slate-900 dark:text-white dark:border-slate-600 focus:outline-none focus:ring-1 focus:ring-brand-500';
+const labelClass = 'text-xs text-slate-500 dark:text-slate-400';
+
+export const ChallengeEditor: React.FC<ChallengeEditorProps> = ({ solution, layout, unit, onSave, onClose, t }) => {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [hint, setHint] = useState('');
+  const [level, setLevel] = useState(1);
+  // Start in cells from the center (Y up) and compass heading, as shown on the board
+  const [startX, setStartX] = useState(0);
+  const [startY, setStartY] = useState(0);
+  const [heading, setHeading] = useState(0);
+  const [allowedBlocks, setAllowedBlocks] = useState<CommandType[]>(Object.values(CommandType));
+  const [maxBlocks, setMaxBlocks] = useState(''); // Empty = no limit
+  const [goalOnly, setGoalOnly] = useState(false);
+  const hasGoals = layout.goals.length > 0;
+
+  const options = {
+    title: title.trim(),
+    description: description.trim(),
+    hint: hint.trim(),
+    level,
+    start: { x: START_X + startX * GRID_SIZE, y: START_Y - startY * GRID_SIZE, angle: START_ANGLE + heading },
+    layout,
+    unit,
+    goalOnly: hasGoals && goalOnly,
+    ...(allowedBlocks.length < Object.values(CommandType).length ? { allowedBlocks } : {}),
+    ...(parseInt(maxBlocks) > 0 ? { maxBlocks: parseInt(maxBlocks) } : {}),
+  };
+  const { challenge: preview, error: runError } = useMemo(() => createCustomChallenge(solution, options), [solution, JSON.stringify(options)]);
+  // The reference solution must solve the maze it comes with
+  const missesGoal = useMemo(() => {
+    if (!preview) return false;
+    const board = getChallengeBoard(preview);
+    return checkChallenge(preview, runProgram(solution, getStartState(board), getBoard(board)), solution).missedGoal;
+  }, [preview, solution]);
+  const error = runError ? t('challenge_solution_fails').replace('{error}', t(runError.key).replace('{token}', runError.token || ''))
+    : missesGoal ? t('challenge_solution_misses_goal')
+    : preview?.target.length === 0 && !options.goalOnly ? t('challenge_needs_drawing')
+    : options.title === '' ? t('challenge_needs_title')
+    : null;
+
+  const toggleBlock = (type: CommandType) => {
+    setAllowedBlocks(prev => prev.includes(type) ? prev.filter(b => b !== type) : [...prev, type]);
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 z-40 bg-black/30" onClick={onClose}></div>
+
+      <div className={modalClass}>
+        <div className="flex justify-between items-center p-4 border-b border-slate-200 dark:border-slate-700">
+          <h3 className="font-bold text-slate-800 dark:text-slate-200 text-sm uppercase">{t('new_challenge')}</h3>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500"
+            title={t('close')}
+            aria-label={t('close')}
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 flex flex-col gap-3">
+          <p className="text-xs text-slate-500 dark:text-slate-400">{t('new_challenge_hint')}</p>
+
+          <div className="flex gap-3">
+            {preview ? (
+              <img src={renderTarget(preview)} alt="" className="w-40 h-[7.5rem] object-cover rounded border border-slate-200 dark:border-slate-600 flex-shrink-0" />
+            ) : (
+              <div className="w-40 h-[7.5rem] rounded border border-slate-200 dark:border-slate-600 flex-shrink-0" />
+            )}
+            <div className="flex-1 flex flex-col gap-2">
+              <label className={labelClass}>
+                {t('challenge_title')}
+                <input value={title} onChange={(e) => setTitle(e.target.value)} className={fieldClass} />
+              </label>
+              <label className={labelClass}>
+                {t('challenge_level')}
+                <select value={level} onChange={(e) => setLevel(parseInt(e.target.value))} className={fieldClass}>
+                  {[1, 2, 3].map(n => <option key={n} value={n}>{t(`challenge_level_${n}`)}</option>)}
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <label className={labelClass}>
+            {t('challenge_description')}
+            <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} className={fieldClass} />
+          </label>
+          <label className={labelClass}>
+            {t('challenge_hint')}
+            <input value={hint} onChange={(e) => setHint(e.target.value)} className={fieldClass} />
+          </label>
+
+          <div className="grid grid-cols-4 gap-2">
+            <label className={labelClass}>
+              {t('start_x')}
+              <input type="number" step={0.5} min={-START_X / GRID_SIZE} max={(CANVAS_WIDTH - START_X) / GRID_SIZE} value={startX} onChange={(e) => setStartX(Number(e.target.value))} className={fieldClass} />
+            </label>
+            <label className={labelClass}>
+              {t('start_y')}
+              <input type="number" step={0.5} min={(START_Y - CANVAS_HEIGHT) / GRID_SIZE} max={START_Y / GRID_SIZE} value={startY} onChange={(e) => setStartY(Number(e.target.value))} className={fieldClass} />
+            </label>
+            <label className={labelClass}>
+              {t('start_heading')}
+              <input type="number" step={15} value={heading} onChange={(e) => setHeading(Number(e.target.value))} className={fieldClass} />
+            </label>
+            <label className={labelClass}>
+              {t('challenge_max_blocks_field')}
+              <input type="number" min={1} value={maxBlocks} onChange={(e) => setMaxBlocks(e.target.value)} placeholder={t('no_limit')} className={fieldClass} />
+            </label>
+          </div>
+
+          {hasGoals && (
+            <label className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-300">
+              <input type="checkbox" checked={goalOnly} onChange={(e) => setGoalOnly(e.target.checked)} />
+              {t('challenge_goal_only')}
+            </label>
+          )}
+
+          <fieldset>
+            <legend className={labelClass}>{t('challenge_allowed_blocks')}</legend>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-1 mt-1">
+              {Object.values(CommandType).map(type => (
+                <label key={type} className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-300">
+                  <input type="checkbox" checked={allowedBlocks.includes(type)} onChange={() => toggleBlock(type)} />
+                  {getCommandLabel(type, t)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+
+        <div className="flex justify-end items-center gap-3 p-4 border-t border-slate-200 dark:border-slate-700">
+          {error && <span className="text-xs text-red-500 dark:text-red-400">{error}</span>}
+          <button
+            onClick={() => preview && onSave(preview)}
+            disabled={!preview || error !== null}
+            className="px-4 py-1.5 text-sm font-semibold rounded-full bg-brand-500 hover:bg-brand-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('save_challenge')}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -6,31 +6,48 @@
 
 import React from 'react';
 import { CommandType } from '../types';
-import { ArrowUp, ArrowDown, RotateCw, RotateCcw, Repeat } from 'lucide-react';
+import { DRAG_TYPES } from '../constants';
+import { ArrowUp, ArrowDown, RotateCw, RotateCcw, Repeat, Pen, PenOff, Palette, Brush, SquareFunction, CornerDownRight, Variable, GitBranch, Split } from 'lucide-react';
 
 interface CommandPaletteProps {
   onAddCommand: (type: CommandType) => void;
   disabled: boolean;
+  allowedTypes?: CommandType[]; // Only these buttons, e.g. in a challenge. All when missing
   t: (key: string) => string;
 }
 
-export const CommandPalette: React.FC<CommandPaletteProps> = ({ onAddCommand, disabled, t }) => {
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ onAddCommand, disabled, allowedTypes, t }) => {
   const buttons = [
     { type: CommandType.FORWARD, label: t('cmd_forward'), icon: ArrowUp, color: 'bg-emerald-500 hover:bg-emerald-600 dark:bg-emerald-600 dark:hover:bg-emerald-700' },
     { type: CommandType.BACKWARD, label: t('cmd_backward'), icon: ArrowDown, color: 'bg-emerald-500 hover:bg-emerald-600 dark:bg-emerald-600 dark:hover:bg-emerald-700' },
     { type: CommandType.TURN_LEFT, label: t('cmd_left'), icon: RotateCcw, color: 'bg-blue-500 hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700' },
     { type: CommandType.TURN_RIGHT, label: t('cmd_right'), icon: RotateCw, color: 'bg-blue-500 hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700' },
     { type: CommandType.REPEAT, label: t('cmd_repeat'), icon: Repeat, color: 'bg-purple-500 hover:bg-purple-600 dark:bg-purple-600 dark:hover:bg-purple-700' },
+    { type: CommandType.PEN_UP, label: t('cmd_pen_up'), icon: PenOff, color: 'bg-amber-500 hover:bg-amber-600 dark:bg-amber-600 dark:hover:bg-amber-700' },
+    { type: CommandType.PEN_DOWN, label: t('cmd_pen_down'), icon: Pen, color: 'bg-amber-500 hover:bg-amber-600 dark:bg-amber-600 dark:hover:bg-amber-700' },
+    { type: CommandType.SET_COLOR, label: t('cmd_color'), icon: Palette, color: 'bg-pink-500 hover:bg-pink-600 dark:bg-pink-600 dark:hover:bg-pink-700' },
+    { type: CommandType.SET_WIDTH, label: t('cmd_width'), icon: Brush, color: 'bg-pink-500 hover:bg-pink-600 dark:bg-pink-600 dark:hover:bg-pink-700' },
+    { type: CommandType.IF, label: t('cmd_if'), icon: GitBranch, color: 'bg-teal-500 hover:bg-teal-600 dark:bg-teal-600 dark:hover:bg-teal-700' },
+    { type: CommandType.ELSE, label: t('cmd_else'), icon: Split, color: 'bg-teal-500 hover:bg-teal-600 dark:bg-teal-600 dark:hover:bg-teal-700' },
+    { type: CommandType.SET_VARIABLE, label: t('cmd_set_variable'), icon: Variable, color: 'bg-orange-500 hover:bg-orange-600 dark:bg-orange-600 dark:hover:bg-orange-700' },
+    { type: CommandType.DEFINE, label: t('cmd_define'), icon: SquareFunction, color: 'bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700' },
+    { type: CommandType.CALL, label: t('cmd_call'), icon: CornerDownRight, color: 'bg-cyan-500 hover:bg-cyan-600 dark:bg-cyan-600 dark:hover:bg-cyan-700' },
   ];
 
   return (
     <div className="flex flex-col gap-3 p-4 bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 h-full">
       <h2 className="text-sm font-bold text-slate-400 dark:text-slate-500 uppercase tracking-wider mb-2">{t('commands')}</h2>
-      {buttons.map((btn) => (
+      {buttons.filter(btn => !allowedTypes || allowedTypes.includes(btn.type)).map((btn) => (
         <button
           key={btn.type}
           onClick={() => onAddCommand(btn.type)}
           disabled={disabled}
+          // Can also be dragged to a chosen position in the timeline
+          draggable={!disabled}
+          onDragStart={(e) => {
+            e.dataTransfer.setData(DRAG_TYPES.newCommand, btn.type);
+            e.dataTransfer.effectAllowed = 'copy';
+          }}
           className={`${btn.color} text-white p-3 rounded-lg shadow-md transition-all active:scale-95 flex items-center gap-3 disabled:opacity-50 disabled:cursor-not-allowed`}
         >
           <btn.icon size={20} />
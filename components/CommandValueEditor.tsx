@@ -0,0 +1,297 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Appearance and value editing shared by the block timeline and the tree view
+
+import React, { useState } from 'react';
+import { Command, CommandType, Condition, DistanceUnit } from '../types';
+import { PEN_COLORS, PEN_WIDTHS } from '../constants';
+import { isValidName, isPlainNumber, parseExpression } from '../utils/expression';
+import { UNIT_LABEL_KEYS } from '../utils/units';
+import { VALUE_RANGES, ValueRange, isInRange } from '../utils/valueRanges';
+
+export const getCommandColor = (type: CommandType) => {
+  switch(type) {
+    case CommandType.FORWARD: return 'bg-emerald-100 border-emerald-300 text-emerald-800 dark:bg-emerald-900/50 dark:border-emerald-700 dark:text-emerald-200';
+    case CommandType.BACKWARD: return 'bg-emerald-100 border-emerald-300 text-emerald-800 dark:bg-emerald-900/50 dark:border-emerald-700 dark:text-emerald-200';
+    case CommandType.TURN_LEFT: return 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900/50 dark:border-blue-700 dark:text-blue-200';
+    case CommandType.TURN_RIGHT: return 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900/50 dark:border-blue-700 dark:text-blue-200';
+    case CommandType.REPEAT: return 'bg-purple-100 border-purple-300 text-purple-800 dark:bg-purple-900/50 dark:border-purple-700 dark:text-purple-200';
+    case CommandType.PEN_UP: return 'bg-amber-100 border-amber-300 text-amber-800 dark:bg-amber-900/50 dark:border-amber-700 dark:text-amber-200';
+    case CommandType.PEN_DOWN: return 'bg-amber-100 border-amber-300 text-amber-800 dark:bg-amber-900/50 dark:border-amber-700 dark:text-amber-200';
+    case CommandType.SET_COLOR: return 'bg-pink-100 border-pink-300 text-pink-800 dark:bg-pink-900/50 dark:border-pink-700 dark:text-pink-200';
+    case CommandType.SET_WIDTH: return 'bg-pink-100 border-pink-300 text-pink-800 dark:bg-pink-900/50 dark:border-pink-700 dark:text-pink-200';
+    case CommandType.DEFINE: return 'bg-indigo-100 border-indigo-300 text-indigo-800 dark:bg-indigo-900/50 dark:border-indigo-700 dark:text-indigo-200';
+    case CommandType.SET_VARIABLE: return 'bg-orange-100 border-orange-300 text-orange-800 dark:bg-orange-900/50 dark:border-orange-700 dark:text-orange-200';
+    case CommandType.CALL: return 'bg-cyan-100 border-cyan-300 text-cyan-800 dark:bg-cyan-900/50 dark:border-cyan-700 dark:text-cyan-200';
+    case CommandType.IF: return 'bg-teal-100 border-teal-300 text-teal-800 dark:bg-teal-900/50 dark:border-teal-700 dark:text-teal-200';
+    case CommandType.ELSE: return 'bg-teal-100 border-teal-300 text-teal-800 dark:bg-teal-900/50 dark:border-teal-700 dark:text-teal-200';
+    default: return 'bg-slate-100 dark:bg-slate-800';
+  }
+};
+
+export const getCommandLabel = (type: CommandType, t: (key: string) => string) => {
+  switch(type) {
+    case CommandType.FORWARD: return t('cmd_forward');
+    case CommandType.BACKWARD: return t('cmd_backward');
+    case CommandType.TURN_LEFT: return t('cmd_left');
+    case CommandType.TURN_RIGHT: return t('cmd_right');
+    case CommandType.REPEAT: return t('cmd_repeat');
+    case CommandType.PEN_UP: return t('cmd_pen_up');
+    case CommandType.PEN_DOWN: return t('cmd_pen_down');
+    case CommandType.SET_COLOR: return t('cmd_color');
+    case CommandType.SET_WIDTH: return t('cmd_width');
+    case CommandType.DEFINE: return t('cmd_define');
+    case CommandType.CALL: return t('cmd_call');
+    case CommandType.SET_VARIABLE: return t('cmd_set_variable');
+    case CommandType.IF: return t('cmd_if');
+    case CommandType.ELSE: return t('cmd_else');
+  }
+};
+
+export const getConditionLabel = (condition: Condition, t: (key: string) => string) => {
+  switch(condition) {
+    case Condition.EDGE_AHEAD: return t('cond_edge_ahead');
+    case Condition.FACING: return t('cond_facing');
+    case Condition.PAINTED_AHEAD: return t('cond_painted_ahead');
+    case Condition.ON_TARGET: return t('cond_on_target');
+  }
+};
+
+// Compass headings offered for IF FACING, in degrees
+const HEADINGS = [
+  { value: 0, key: 'heading_north' },
+  { value: 90, key: 'heading_east' },
+  { value: 180, key: 'heading_south' },
+  { value: 270, key: 'heading_west' },
+];
+
+// Names of PEN_COLORS, for screen readers
+export const PEN_COLOR_KEYS = ['color_sky', 'color_red', 'color_orange', 'color_yellow', 'color_green', 'color_indigo', 'color_purple', 'color_black'];
+
+// Pen commands only toggle state and ELSE only has a body, they have no value to edit.
+// Procedure blocks have their own editors (see ProcedureEditors).
+export const hasCommandValue = (type: CommandType) => {
+  return ![CommandType.PEN_UP, CommandType.PEN_DOWN, CommandType.DEFINE, CommandType.CALL, CommandType.ELSE].includes(type);
+};
+
+const inputClass = 'font-mono border rounded bg-white/50 focus:bg-white focus:outline-none focus:ring-1 focus:ring-slate-400 disabled:cursor-not-allowed dark:bg-black/20 dark:text-white dark:border-slate-600';
+
+// Text input that only commits valid, free names and reverts otherwise
+export const NameInput: React.FC<{
+  value: string;
+  isTaken?: (name: string) => boolean;
+  onCommit: (name: string) => void;
+  allowEmpty?: boolean;
+  placeholder?: string;
+  disabled?: boolean;
+  className: string;
+  t: (key: string) => string;
+}> = ({ value, isTaken, onCommit, allowEmpty = false, placeholder, disabled, className, t }) => (
+  <input
+    key={value} // Reset the uncontrolled input when the name changes elsewhere (undo...)
+    defaultValue={value}
+    placeholder={placeholder}
+    disabled={disabled}
+    onBlur={(e) => {
+      const name = e.target.value.trim();
+      if (name === value) return;
+      if ((allowEmpty && name === '') || (isValidName(name) && !isTaken?.(name))) onCommit(name);
+      else e.target.value = value;
+    }}
+    onKeyDown={(e) => {
+      if (e.key === 'Enter') e.currentTarget.blur();
+      if (e.key === 'Escape') {
+        e.currentTarget.value = value;
+        e.currentTarget.blur();
+      }
+    }}
+    title={t('name_hint')}
+    spellCheck={false}
+    className={`${inputClass} ${className}`}
+  />
+);
+
+// Error of a draft, numbers must be in the range the importer accepts
+const checkDraft = (text: string, range: ValueRange) => {
+  const { error } = parseExpression(text);
+  if (error) return error;
+  if (isPlainNumber(text) && !isInRange(parseFloat(text), range)) return { key: 'value_out_of_range', token: text.trim() };
+  return undefined;
+};
+
+// A number or an expression like `side * 2`. Invalid text stays in the input,
+// marked in red, and is not committed to the program.
+export const ExpressionInput: React.FC<{
+  value: number;
+  expr?: string;
+  range: ValueRange;
+  onChange: (value: number, expr?: string) => void;
+  disabled?: boolean;
+  className: string;
+  t: (key: string) => string;
+}> = ({ value, expr, range, onChange, disabled, className, t }) => {
+  const committed = expr ?? String(value);
+  const [draft, setDraft] = useState(committed);
+  const [lastCommitted, setLastCommitted] = useState(committed);
+
+  // Follow changes made elsewhere (undo, text view...)
+  if (committed !== lastCommitted) {
+    setLastCommitted(committed);
+    setDraft(committed);
+  }
+
+  const error = checkDraft(draft, range);
+
+  return (
+    <input
+      value={draft}
+      disabled={disabled}
+      onChange={(e) => {
+        const text = e.target.value;
+        setDraft(text);
+        if (checkDraft(text, range)) return;
+        const next = isPlainNumber(text) ? { value: parseFloat(text) } : { value, expr: text.trim() };
+        setLastCommitted(next.expr ?? String(next.value));
+        onChange(next.value, next.expr);
+      }}
+      title={error ? t(error.key).replace('{token}', error.token || '') : t('expression_hint')}
+      spellCheck={false}
+      className={`${inputClass} text-center ${error ? 'ring-2 ring-red-400' : ''} ${className}`}
+    />
+  );
+};
+
+const getUnit = (type: CommandType, unit: DistanceUnit, t: (key: string) => string) => {
+  if (type === CommandType.REPEAT) return t('times');
+  if (type === CommandType.TURN_LEFT || type === CommandType.TURN_RIGHT || type === CommandType.IF) return '°';
+  if (type === CommandType.SET_VARIABLE) return '';
+  return t(UNIT_LABEL_KEYS[unit]);
+};
+
+interface CommandValueEditorProps {
+  cmd: Command;
+  onUpdate: (id: string, value: number, expr?: string) => void;
+  onRename: (id: string, name: string) => void; // Variable and loop counter names
+  onConditionChange: (id: string, condition: Condition) => void;
+  unit: DistanceUnit; // Of FORWARD and BACKWARD, set with the board
+  disabled: boolean; // No editing while the program runs
+  t: (key: string) => string;
+}
+
+export const CommandValueEditor: React.FC<CommandValueEditorProps> = ({ cmd, onUpdate, onRename, onConditionChange, unit, disabled, t }) => {
+  const expressionInput = (
+    <div className="flex items-center gap-1 my-1">
+      <ExpressionInput
+        value={cmd.value}
+        expr={cmd.expr}
+        range={VALUE_RANGES[cmd.type]}
+        onChange={(value, expr) => onUpdate(cmd.id, value, expr)}
+        disabled={disabled}
+        className="w-16 text-sm p-1"
+        t={t}
+      />
+      <span className="text-[10px] opacity-70">{getUnit(cmd.type, unit, t)}</span>
+    </div>
+  );
+
+  // Pickers only make sense for plain numbers, values from the text view can be expressions
+  if (cmd.type === CommandType.SET_COLOR && !cmd.expr) {
+    return (
+      <div className="grid grid-cols-4 gap-1 my-1">
+        {PEN_COLORS.map((color, index) => (
+          <button
+            key={color}
+            onClick={() => onUpdate(cmd.id, index)}
+            disabled={disabled}
+            aria-label={t(PEN_COLOR_KEYS[index])}
+            aria-pressed={cmd.value === index}
+            title={t(PEN_COLOR_KEYS[index])}
+            className={`w-4 h-4 rounded-full border ${cmd.value === index ? 'ring-2 ring-offset-1 ring-slate-500 dark:ring-slate-300 border-white' : 'border-black/10'}`}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  if (cmd.type === CommandType.SET_WIDTH && !cmd.expr) {
+    return (
+      <div className="flex items-center gap-1 my-1">
+        <select
+          value={cmd.value}
+          onChange={(e) => onUpdate(cmd.id, parseInt(e.target.value))}
+          disabled={disabled}
+          className="w-14 text-center text-sm font-mono border rounded p-1 bg-white/50 focus:bg-white focus:outline-none focus:ring-1 focus:ring-slate-400 dark:bg-black/20 dark:text-white dark:border-slate-600"
+        >
+          {PEN_WIDTHS.map(width => (
+            <option key={width} value={width}>{width}</option>
+          ))}
+        </select>
+        <span className="text-[10px] opacity-70">px</span>
+      </div>
+    );
+  }
+
+  if (cmd.type === CommandType.SET_VARIABLE) {
+    return (
+      <div className="flex flex-col items-center">
+        <NameInput value={cmd.name || ''} onCommit={(name) => onRename(cmd.id, name)} disabled={disabled} className="w-16 text-sm text-center p-0.5" t={t} />
+        <span className="text-[10px] opacity-70">=</span>
+        {expressionInput}
+      </div>
+    );
+  }
+
+  if (cmd.type === CommandType.REPEAT) {
+    return (
+      <div className="flex flex-col items-center">
+        {expressionInput}
+        <NameInput
+          value={cmd.name || ''}
+          onCommit={(name) => onRename(cmd.id, name)}
+          allowEmpty
+          placeholder={t('counter')}
+          disabled={disabled}
+          className="w-16 text-[10px] text-center p-0.5"
+          t={t}
+        />
+      </div>
+    );
+  }
+
+  if (cmd.type === CommandType.IF) {
+    const isHeading = !cmd.expr && HEADINGS.some(h => h.value === cmd.value);
+    return (
+      <div className="flex flex-col items-center gap-1 my-1">
+        <select
+          value={cmd.condition}
+          onChange={(e) => onConditionChange(cmd.id, e.target.value as Condition)}
+          disabled={disabled}
+          className="max-w-[7rem] text-xs border rounded p-0.5 bg-white/50 focus:bg-white focus:outline-none dark:bg-black/20 dark:text-white dark:border-slate-600"
+        >
+          {Object.values(Condition).map(condition => (
+            <option key={condition} value={condition}>{getConditionLabel(condition, t)}</option>
+          ))}
+        </select>
+        {cmd.condition === Condition.FACING && (isHeading ? (
+          <select
+            value={cmd.value}
+            onChange={(e) => onUpdate(cmd.id, parseInt(e.target.value))}
+            disabled={disabled}
+            className="text-xs border rounded p-0.5 bg-white/50 focus:bg-white focus:outline-none dark:bg-black/20 dark:text-white dark:border-slate-600"
+          >
+            {HEADINGS.map(heading => (
+              <option key={heading.value} value={heading.value}>{t(heading.key)}</option>
+            ))}
+          </select>
+        ) : expressionInput)}
+      </div>
+    );
+  }
+
+  return expressionInput;
+};
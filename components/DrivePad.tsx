@@ -0,0 +1,68 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+import React from 'react';
+import { ArrowUp, ArrowDown, RotateCw, RotateCcw, Pen, PenOff, Gamepad2, X } from 'lucide-react';
+import { CommandType } from '../types';
+import { getCommandLabel } from './CommandValueEditor';
+
+interface DrivePadProps {
+  onDrive: (type: CommandType) => void;
+  penDown: boolean; // The pen button lifts or lowers it
+  allowedTypes?: CommandType[]; // Challenge restriction, every move when missing
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+const padButtonClass = 'p-3 rounded-lg shadow-md text-white transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed';
+
+// On-screen controls of drive mode, laid out like the arrow keys
+export const DrivePad: React.FC<DrivePadProps> = ({ onDrive, penDown, allowedTypes, onClose, t }) => {
+  const penType = penDown ? CommandType.PEN_UP : CommandType.PEN_DOWN;
+
+  const renderButton = (type: CommandType, Icon: React.ElementType, color: string) => (
+    <button
+      onClick={() => onDrive(type)}
+      disabled={allowedTypes && !allowedTypes.includes(type)}
+      className={`${padButtonClass} ${color}`}
+      title={getCommandLabel(type, t)}
+      aria-label={getCommandLabel(type, t)}
+    >
+      <Icon size={20} />
+    </button>
+  );
+
+  return (
+    <div className="w-full max-w-[800px] flex items-center gap-4 p-3 rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-800 text-sm">
+      <div className="flex-1 flex flex-col gap-1">
+        <span className="flex items-center gap-2 font-bold text-slate-800 dark:text-slate-100">
+          <Gamepad2 size={18} className="text-brand-500" /> {t('drive_mode')}
+        </span>
+        <p className="text-xs text-slate-500 dark:text-slate-400">{t('drive_hint')}</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        <span />
+        {renderButton(CommandType.FORWARD, ArrowUp, 'bg-emerald-500 hover:bg-emerald-600 dark:bg-emerald-600 dark:hover:bg-emerald-700')}
+        <span />
+        {renderButton(CommandType.TURN_LEFT, RotateCcw, 'bg-blue-500 hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700')}
+        {renderButton(CommandType.BACKWARD, ArrowDown, 'bg-emerald-500 hover:bg-emerald-600 dark:bg-emerald-600 dark:hover:bg-emerald-700')}
+        {renderButton(CommandType.TURN_RIGHT, RotateCw, 'bg-blue-500 hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700')}
+      </div>
+
+      {renderButton(penType, penDown ? PenOff : Pen, 'bg-amber-500 hover:bg-amber-600 dark:bg-amber-600 dark:hover:bg-amber-700')}
+
+      <button
+        onClick={onClose}
+        className="self-start p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500"
+        title={t('drive_stop')}
+        aria-label={t('drive_stop')}
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
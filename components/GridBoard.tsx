@@ -4,20 +4,96 @@
  * Licensed under AGPL v3
  */
 
-import React, { useRef, useEffect } from 'react';
-import { RobotState, Point } from '../types';
-import { GRID_SIZE, COLORS, CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+import React, { useRef, useEffect, useState } from 'react';
+import { ImageDown, Grid3x3, RotateCcw, BrickWall, Fence, Flag, Eraser } from 'lucide-react';
+import { RobotState, Point, PathSegment, BoardSettings, EdgeMode, DistanceUnit } from '../types';
+import { BOARD_LIMITS } from '../constants';
+import { drawBackground, drawGrid, drawLayout, drawPath, drawTarget, getRobotSize } from '../utils/drawing';
+import { exportPng, exportSvg } from '../utils/exportImage';
+import { downloadBlob } from '../utils/download';
+import { DEFAULT_BOARD_SETTINGS, formatCoordinate, getColumns, getRows, resizeBoard, toGridCoordinates } from '../utils/board';
+import { UNIT_LABEL_KEYS, getHeading } from '../utils/units';
+import { EMPTY_LAYOUT, getCellAt, getNearestWall, isLayoutEmpty, toggleCell, toggleWall } from '../utils/maze';
 import { Robot } from './Robot';
+import { StartHandle } from './StartHandle';
 
 interface GridBoardProps {
   robotState: RobotState;
-  path: Point[];
+  path: PathSegment[];
   tempPathLine?: Point | null; 
+  target?: Point[][]; // Challenge figure, drawn faintly under the path
+  board: BoardSettings;
+  onBoardChange?: (board: BoardSettings) => void; // Missing while the board can't be edited
   isDarkMode: boolean;
+  transitionDuration?: number; // Robot animation time in ms
+  crashed?: boolean; // The last run hit a wall or a blocked cell
+  fileName: string; // Base name for exported images
+  onExportError: () => void; // The browser could not draw the PNG
+  t: (key: string) => string;
 }
 
-export const GridBoard: React.FC<GridBoardProps> = ({ robotState, path, isDarkMode }) => {
+const menuButtonClass = 'p-2 rounded-md shadow bg-white/90 dark:bg-slate-800/90 backdrop-blur border border-slate-100 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:text-brand-600';
+const menuClass = 'absolute right-0 mt-2 w-48 p-3 rounded-lg shadow-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs text-slate-600 dark:text-slate-300 flex flex-col gap-2';
+const numberFieldClass = 'w-16 px-1 py-0.5 rounded border bg-white dark:bg-slate-900 dark:border-slate-600 text-right';
+
+type MazeTool = 'blocked' | 'wall' | 'goal';
+
+const MAZE_TOOLS = [
+  { tool: 'blocked' as MazeTool, icon: BrickWall, key: 'tool_blocked' },
+  { tool: 'wall' as MazeTool, icon: Fence, key: 'tool_wall' },
+  { tool: 'goal' as MazeTool, icon: Flag, key: 'tool_goal' },
+];
+
+export const GridBoard: React.FC<GridBoardProps> = ({
+  robotState,
+  path,
+  target,
+  board,
+  onBoardChange,
+  isDarkMode,
+  transitionDuration,
+  crashed,
+  fileName,
+  onExportError,
+  t
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const robotSvgRef = useRef<SVGSVGElement>(null);
+  const coordinates = toGridCoordinates(robotState, board);
+
+  // --- Export State ---
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [includeGrid, setIncludeGrid] = useState(true);
+  const [includeRobot, setIncludeRobot] = useState(false);
+
+  // --- Board Settings State ---
+  const [isBoardMenuOpen, setIsBoardMenuOpen] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, string>>({}); // Fields being typed, applied once valid
+  const [mazeTool, setMazeTool] = useState<MazeTool | null>(null); // Clicks on the board place or remove it
+  const activeTool = onBoardChange ? mazeTool : null;
+
+  const getExportOptions = () => ({
+    path,
+    robotState,
+    board,
+    robotSvg: robotSvgRef.current,
+    includeGrid,
+    includeRobot,
+    isDarkMode,
+  });
+
+  const handleExportPng = async () => {
+    setIsExportOpen(false);
+    const blob = await exportPng(getExportOptions()).catch(() => null);
+    if (blob) downloadBlob(blob, `${fileName}.png`);
+    else onExportError();
+  };
+
+  const handleExportSvg = () => {
+    const svg = exportSvg(getExportOptions());
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${fileName}.svg`);
+    setIsExportOpen(false);
+  };
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -25,74 +101,188 @@ export const GridBoard: React.FC<GridBoardProps> = ({ robotState, path, isDarkMo
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Determine colors based on mode
-    const bgColor = isDarkMode ? '#1e293b' : '#ffffff';
-    const gridColor = isDarkMode ? COLORS.gridDark : COLORS.grid;
+    drawBackground(ctx, isDarkMode, board);
+    drawGrid(ctx, isDarkMode, board);
+    drawLayout(ctx, board.layout, isDarkMode, board.cellSize);
+    if (target) drawTarget(ctx, target, isDarkMode);
+    drawPath(ctx, path);
+  }, [path, target, isDarkMode, board]);
 
-    // Clear background
-    ctx.fillStyle = bgColor;
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  const boardFields = [
+    { key: 'board_columns', value: getColumns(board), min: BOARD_LIMITS.cells.min, max: BOARD_LIMITS.cells.max },
+    { key: 'board_rows', value: getRows(board), min: BOARD_LIMITS.cells.min, max: BOARD_LIMITS.cells.max },
+    { key: 'board_cell_size', value: board.cellSize, min: BOARD_LIMITS.cellSize.min, max: BOARD_LIMITS.cellSize.max },
+  ];
 
-    // 1. Draw Grid
-    ctx.strokeStyle = gridColor;
-    ctx.lineWidth = 1;
+  const handleBoardField = (index: number, input: string) => {
+    const field = boardFields[index];
+    setDrafts(prev => ({ ...prev, [field.key]: input }));
+    const value = Number(input);
+    if (!Number.isInteger(value) || value < field.min || value > field.max) return;
+    const [columns, rows, cellSize] = boardFields.map((other, i) => i === index ? value : other.value);
+    onBoardChange(resizeBoard(board, columns, rows, cellSize));
+  };
 
-    for (let x = 0; x <= CANVAS_WIDTH; x += GRID_SIZE) {
-      ctx.beginPath();
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, CANVAS_HEIGHT);
-      ctx.stroke();
+  // Clicking an element again removes it
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!activeTool) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    const { layout } = board;
+    if (activeTool === 'wall') {
+      onBoardChange({ ...board, layout: { ...layout, walls: toggleWall(layout.walls, getNearestWall(point, board.cellSize)) } });
+      return;
     }
-    for (let y = 0; y <= CANVAS_HEIGHT; y += GRID_SIZE) {
-      ctx.beginPath();
-      ctx.moveTo(0, y);
-      ctx.lineTo(CANVAS_WIDTH, y);
-      ctx.stroke();
+    const cell = getCellAt(point, board.cellSize);
+    if (activeTool === 'blocked') {
+      onBoardChange({ ...board, layout: { ...layout, blocked: toggleCell(layout.blocked, cell) } });
+    } else {
+      onBoardChange({ ...board, layout: { ...layout, goals: toggleCell(layout.goals, cell) } });
     }
-
-    // 2. Draw Path
-    if (path.length > 1) {
-      ctx.strokeStyle = COLORS.path;
-      ctx.lineWidth = 4; // Thicker line for better visibility
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.beginPath();
-      ctx.moveTo(path[0].x, path[0].y);
-      
-      for (let i = 1; i < path.length; i++) {
-        ctx.lineTo(path[i].x, path[i].y);
-      }
-      ctx.stroke();
-    }
-    
-    // Draw start dot just in case
-    if (path.length > 0) {
-        ctx.fillStyle = '#10b981';
-        ctx.beginPath();
-        ctx.arc(path[0].x, path[0].y, 4, 0, Math.PI * 2);
-        ctx.fill();
-    }
-    
-  }, [path, isDarkMode]);
+  };
 
   return (
     <div className="relative shadow-xl rounded-lg overflow-hidden bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700">
       {/* Canvas Layer */}
       <canvas
         ref={canvasRef}
-        width={CANVAS_WIDTH}
-        height={CANVAS_HEIGHT}
-        className="block"
+        width={board.width}
+        height={board.height}
+        className={`block ${activeTool ? 'cursor-crosshair' : ''}`}
+        onClick={handleCanvasClick}
+        role="img"
+        aria-label={t('board_label')}
       />
       
       {/* Robot Layer - Absolutely positioned on top */}
-      <Robot state={robotState} />
+      <Robot state={robotState} size={getRobotSize(board.cellSize)} transitionDuration={transitionDuration} svgRef={robotSvgRef} crashed={crashed} />
+
+      {onBoardChange && <StartHandle board={board} onChange={onBoardChange} t={t} />}
+
+      {/* Board and Export Menus */}
+      <div className="absolute top-4 right-4 z-40 flex gap-2">
+        {onBoardChange && (
+          <div className="relative">
+            <button
+              onClick={() => setIsBoardMenuOpen(!isBoardMenuOpen)}
+              className={menuButtonClass}
+              title={t('board_settings')}
+              aria-label={t('board_settings')}
+              aria-expanded={isBoardMenuOpen}
+            >
+              <Grid3x3 size={18} />
+            </button>
+            {isBoardMenuOpen && (
+              <div className={menuClass}>
+                {boardFields.map((field, index) => (
+                  <label key={field.key} className="flex items-center justify-between gap-2">
+                    {t(field.key)}
+                    <input
+                      type="number"
+                      min={field.min}
+                      max={field.max}
+                      value={drafts[field.key] ?? field.value}
+                      onChange={(e) => handleBoardField(index, e.target.value)}
+                      onBlur={() => setDrafts({})}
+                      className={numberFieldClass}
+                    />
+                  </label>
+                ))}
+                <label className="flex flex-col gap-1">
+                  {t('distance_unit')}
+                  <select
+                    value={board.unit}
+                    onChange={(e) => onBoardChange({ ...board, unit: e.target.value as DistanceUnit })}
+                    className="px-1 py-0.5 rounded border bg-white dark:bg-slate-900 dark:border-slate-600"
+                  >
+                    {Object.values(DistanceUnit).map(unit => (
+                      <option key={unit} value={unit}>{t(UNIT_LABEL_KEYS[unit])}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  {t('edge_mode')}
+                  <select
+                    value={board.edgeMode}
+                    onChange={(e) => onBoardChange({ ...board, edgeMode: e.target.value as EdgeMode })}
+                    className="px-1 py-0.5 rounded border bg-white dark:bg-slate-900 dark:border-slate-600"
+                  >
+                    {Object.values(EdgeMode).map(mode => (
+                      <option key={mode} value={mode}>{t(`edge_${mode.toLowerCase()}`)}</option>
+                    ))}
+                  </select>
+                </label>
+                <div className="flex flex-col gap-1">
+                  {t('maze_tools')}
+                  <div className="flex gap-1">
+                    {MAZE_TOOLS.map(({ tool, icon: Icon, key }) => (
+                      <button
+                        key={tool}
+                        onClick={() => setMazeTool(activeTool === tool ? null : tool)}
+                        title={t(key)}
+                        aria-label={t(key)}
+                        aria-pressed={activeTool === tool}
+                        className={`flex-1 flex justify-center py-1 rounded border ${activeTool === tool ? 'bg-brand-500 border-brand-500 text-white' : 'border-slate-200 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+                      >
+                        <Icon size={14} />
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => onBoardChange({ ...board, layout: EMPTY_LAYOUT })}
+                      disabled={isLayoutEmpty(board.layout)}
+                      title={t('clear_maze')}
+                      aria-label={t('clear_maze')}
+                      className="flex-1 flex justify-center py-1 rounded border border-slate-200 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-40"
+                    >
+                      <Eraser size={14} />
+                    </button>
+                  </div>
+                </div>
+                <p className="text-[10px] text-slate-400">{t('board_start_hint')}</p>
+                <button
+                  onClick={() => onBoardChange(DEFAULT_BOARD_SETTINGS)}
+                  className="flex items-center justify-center gap-1 py-1 rounded border border-slate-200 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700"
+                >
+                  <RotateCcw size={12} /> {t('board_reset')}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+        <div className="relative">
+          <button
+            onClick={() => setIsExportOpen(!isExportOpen)}
+            className={menuButtonClass}
+            title={t('export_image')}
+            aria-label={t('export_image')}
+            aria-expanded={isExportOpen}
+          >
+            <ImageDown size={18} />
+          </button>
+          {isExportOpen && (
+            <div className={menuClass}>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={includeGrid} onChange={(e) => setIncludeGrid(e.target.checked)} />
+                {t('export_with_grid')}
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={includeRobot} onChange={(e) => setIncludeRobot(e.target.checked)} />
+                {t('export_with_robot')}
+              </label>
+              <div className="flex gap-2 mt-1">
+                <button onClick={handleExportPng} className="flex-1 py-1 rounded bg-brand-500 hover:bg-brand-600 text-white font-semibold">PNG</button>
+                <button onClick={handleExportSvg} className="flex-1 py-1 rounded bg-brand-500 hover:bg-brand-600 text-white font-semibold">SVG</button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
       
       {/* Info Overlay */}
       <div className="absolute top-4 left-4 z-40 bg-white/90 dark:bg-slate-800/90 backdrop-blur px-3 py-2 rounded-md shadow text-xs text-slate-500 dark:text-slate-400 pointer-events-none border border-slate-100 dark:border-slate-700">
-        <div className="font-mono">X: {Math.round((robotState.x - CANVAS_WIDTH/2) / GRID_SIZE)}</div>
-        <div className="font-mono">Y: {Math.round(-(robotState.y - CANVAS_HEIGHT/2) / GRID_SIZE)}</div>
-        <div className="font-mono">Ang: {Math.round(robotState.angle + 90) % 360}°</div>
+        <div className="font-mono">X: {formatCoordinate(coordinates.x)}</div>
+        <div className="font-mono">Y: {formatCoordinate(coordinates.y)}</div>
+        <div className="font-mono">Ang: {getHeading(robotState.angle)}°</div>
       </div>
     </div>
   );
@@ -0,0 +1,115 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Editors for DEFINE (name and parameters) and CALL (target and arguments) blocks
+
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Command, CallArgument } from '../types';
+import { NameInput, ExpressionInput } from './CommandValueEditor';
+import { ARGUMENT_RANGE } from '../utils/valueRanges';
+
+// Procedure edits that must keep the whole program in sync, provided by App
+export interface ProcedureHandlers {
+  procedures: Command[]; // Every DEFINE in the program
+  onRename: (defineId: string, name: string) => void;
+  onAddParam: (defineId: string) => void;
+  onRemoveParam: (defineId: string, index: number) => void;
+  onRenameParam: (defineId: string, index: number, name: string) => void;
+  onSetCallTarget: (callId: string, name: string) => void;
+  onUpdateArg: (callId: string, index: number, arg: CallArgument) => void;
+}
+
+export const DefineEditor: React.FC<{
+  cmd: Command;
+  handlers: ProcedureHandlers;
+  disabled: boolean; // No editing while the program runs
+  t: (key: string) => string;
+}> = ({ cmd, handlers, disabled, t }) => {
+  const params = cmd.params || [];
+  return (
+    <div className="flex flex-col items-center gap-1 my-1">
+      <NameInput
+        value={cmd.name || ''}
+        isTaken={(name) => handlers.procedures.some(p => p.id !== cmd.id && p.name === name)}
+        onCommit={(name) => handlers.onRename(cmd.id, name)}
+        disabled={disabled}
+        className="w-24 text-center text-sm p-0.5"
+        t={t}
+      />
+      <div className="flex flex-wrap justify-center items-center gap-1">
+        {params.map((param, index) => (
+          <span key={`${index}-${param}`} className="flex items-center text-[10px]">
+            :
+            <NameInput
+              value={param}
+              isTaken={(name) => params.some((p, i) => i !== index && p === name)}
+              onCommit={(name) => handlers.onRenameParam(cmd.id, index, name)}
+              disabled={disabled}
+              className="w-12 px-0.5"
+              t={t}
+            />
+            <button onClick={() => handlers.onRemoveParam(cmd.id, index)} disabled={disabled} className="opacity-60 hover:opacity-100 disabled:opacity-30" title={t('remove_param')} aria-label={t('remove_param')}>
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        <button
+          onClick={() => handlers.onAddParam(cmd.id)}
+          disabled={disabled}
+          className="p-0.5 rounded bg-indigo-200 hover:bg-indigo-300 text-indigo-900 disabled:opacity-50 dark:bg-indigo-800 dark:hover:bg-indigo-700 dark:text-indigo-100"
+          title={t('add_param')}
+          aria-label={t('add_param')}
+        >
+          <Plus size={10} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const CallEditor: React.FC<{
+  cmd: Command;
+  handlers: ProcedureHandlers;
+  disabled: boolean; // No editing while the program runs
+  t: (key: string) => string;
+}> = ({ cmd, handlers, disabled, t }) => {
+  const target = handlers.procedures.find(p => p.name === cmd.name);
+  const args = cmd.args || [];
+
+  return (
+    <div className="flex flex-col items-center gap-1 my-1">
+      <select
+        value={cmd.name || ''}
+        onChange={(e) => handlers.onSetCallTarget(cmd.id, e.target.value)}
+        disabled={disabled}
+        className="max-w-[7rem] text-sm font-mono border rounded p-0.5 bg-white/50 focus:bg-white focus:outline-none dark:bg-black/20 dark:text-white dark:border-slate-600"
+      >
+        {!target && <option value={cmd.name || ''}>{cmd.name || t('choose_procedure')}</option>}
+        {handlers.procedures.filter(p => p.name).map(p => (
+          <option key={p.id} value={p.name}>{p.name}</option>
+        ))}
+      </select>
+      {(target?.params || []).map((param, index) => {
+        const arg = args[index] ?? { value: 0 };
+        return (
+          <label key={index} className="flex items-center gap-1 text-[10px]">
+            <span className="font-mono opacity-70">{param}</span>
+            <ExpressionInput
+              value={arg.value}
+              expr={arg.expr}
+              range={ARGUMENT_RANGE}
+              onChange={(value, expr) => handlers.onUpdateArg(cmd.id, index, expr ? { value, expr } : { value })}
+              disabled={disabled}
+              className="w-14 p-0.5"
+              t={t}
+            />
+          </label>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Command } from '../types';
+import { Language } from '../translations';
+import { parseProgram, programToText, ParseError } from '../utils/programText';
+
+interface ProgramTextEditorProps {
+  commands: Command[];
+  language: Language;
+  onChange: (commands: Command[]) => void;
+  onErrorChange: (hasError: boolean) => void;
+  disabled: boolean;
+  t: (key: string) => string;
+}
+
+export const ProgramTextEditor: React.FC<ProgramTextEditorProps> = ({ commands, language, onChange, onErrorChange, disabled, t }) => {
+  const [text, setText] = useState(() => programToText(commands, language));
+  const [error, setError] = useState<ParseError | null>(null);
+
+  // The last program this editor produced, so we only re-print on outside changes
+  const ownCommandsRef = useRef<Command[]>(commands);
+
+  useEffect(() => {
+    if (commands === ownCommandsRef.current) return;
+    ownCommandsRef.current = commands;
+    setText(programToText(commands, language));
+    setError(null);
+    onErrorChange(false);
+  }, [commands]);
+
+  // Re-print with the new keywords when the language changes (only if the text is valid)
+  useEffect(() => {
+    if (!error) setText(programToText(commands, language));
+  }, [language]);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    const result = parseProgram(value);
+    if (result.error) {
+      setError(result.error);
+      onErrorChange(true);
+    } else {
+      setError(null);
+      onErrorChange(false);
+      ownCommandsRef.current = result.commands;
+      onChange(result.commands);
+    }
+  };
+
+  const formatError = (parseError: ParseError) => {
+    const position = t('error_position')
+      .replace('{line}', String(parseError.line))
+      .replace('{column}', String(parseError.column));
+    return `${position}: ${t(parseError.key).replace('{token}', parseError.token || '')}`;
+  };
+
+  return (
+    <div className="flex flex-col h-full gap-1">
+      <textarea
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={disabled}
+        spellCheck={false}
+        placeholder={t('text_placeholder')}
+        className={`flex-1 w-full resize-none font-mono text-sm p-2 rounded-lg border bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 disabled:opacity-60 ${error ? 'border-red-300 focus:ring-red-300 dark:border-red-700' : 'border-slate-200 focus:ring-brand-500 dark:border-slate-700'}`}
+      />
+      {error && (
+        <div className="text-xs font-semibold text-red-500 dark:text-red-400">
+          {formatError(error)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronRight, ChevronDown, ChevronsDownUp, ChevronsUpDown, X, Pen, PenOff, Plus, Split } from 'lucide-react';
+import { Command, CommandType, Condition, DistanceUnit } from '../types';
+import { LoopFrame } from '../utils/interpreter';
+import { hasBody } from '../utils/commandTree';
+import { CommandValueEditor, getCommandColor, getCommandLabel, hasCommandValue } from './CommandValueEditor';
+import { ProcedureHandlers, DefineEditor, CallEditor } from './ProcedureEditors';
+
+// Outline of the whole program: every loop or procedure body indented under its block
+
+interface ProgramTreeProps {
+  commands: Command[];
+  selectedContainerId: string | null; // Body that receives new blocks from the palette
+  onSelectContainer: (id: string | null) => void;
+  onRemove: (id: string) => void;
+  onUpdate: (id: string, value: number, expr?: string) => void;
+  onRename: (id: string, name: string) => void;
+  onConditionChange: (id: string, condition: Condition) => void;
+  activeCommandId?: string; // Block being executed by the debugger
+  activeLoops?: LoopFrame[]; // Loops enclosing the executing block
+  errorCommandId?: string; // Block that halted the last run
+  procedures: ProcedureHandlers;
+  unit: DistanceUnit;
+  disabled?: boolean; // No editing while the program runs
+  t: (key: string) => string;
+}
+
+const collectBodyIds = (list: Command[]): string[] => {
+  return list.flatMap(c => hasBody(c.type) ? [c.id, ...collectBodyIds(c.children || [])] : []);
+};
+
+export const ProgramTree: React.FC<ProgramTreeProps> = ({
+  commands,
+  selectedContainerId,
+  onSelectContainer,
+  onRemove,
+  onUpdate,
+  onRename,
+  onConditionChange,
+  activeCommandId,
+  activeLoops = [],
+  errorCommandId,
+  procedures,
+  unit,
+  disabled = false,
+  t
+}) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const bodyIds = collectBodyIds(commands);
+
+  // Only nested lists are groups, the root items belong straight to the tree
+  const renderList = (list: Command[], depth: number): React.ReactNode => (
+    <ul role={depth > 0 ? 'group' : 'none'}>
+      {list.map(cmd => (
+        <TreeNode
+          key={cmd.id}
+          cmd={cmd}
+          depth={depth}
+          isCollapsed={collapsed.has(cmd.id)}
+          onToggle={() => toggle(cmd.id)}
+          isSelected={cmd.id === selectedContainerId}
+          onSelect={() => onSelectContainer(cmd.id)}
+          onRemove={onRemove}
+          onUpdate={onUpdate}
+          onRename={onRename}
+          onConditionChange={onConditionChange}
+          isActive={cmd.id === activeCommandId}
+          hasError={cmd.id === errorCommandId}
+          loopFrame={activeLoops.find(frame => frame.commandId === cmd.id)}
+          procedures={procedures}
+          unit={unit}
+          disabled={disabled}
+          t={t}
+        >
+          {cmd.children && renderList(cmd.children, depth + 1)}
+        </TreeNode>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-1 mb-1 text-slate-500 dark:text-slate-400">
+        <button
+          onClick={() => onSelectContainer(null)}
+          className={`text-xs px-2 py-0.5 rounded ${selectedContainerId === null ? 'bg-brand-100 text-brand-700 dark:bg-brand-900/40 dark:text-brand-300 font-semibold' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+          title={t('add_here')}
+        >
+          {t('main_view')}
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={() => setCollapsed(new Set())}
+          disabled={bodyIds.length === 0}
+          className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40"
+          title={t('expand_all')}
+          aria-label={t('expand_all')}
+        >
+          <ChevronsUpDown size={14} />
+        </button>
+        <button
+          onClick={() => setCollapsed(new Set(bodyIds))}
+          disabled={bodyIds.length === 0}
+          className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40"
+          title={t('collapse_all')}
+          aria-label={t('collapse_all')}
+        >
+          <ChevronsDownUp size={14} />
+        </button>
+      </div>
+
+      <div role="tree" aria-label={t('sequence')} className="flex-1 overflow-y-auto pr-1 scrollbar-thin scrollbar-thumb-slate-300 dark:scrollbar-thumb-slate-600">
+        {commands.length === 0 ? (
+          <div className="text-slate-400 dark:text-slate-500 text-sm italic text-center py-4">
+            {t('empty_cmds')}
+          </div>
+        ) : renderList(commands, 0)}
+      </div>
+    </div>
+  );
+};
+
+const TreeNode: React.FC<{
+  cmd: Command;
+  depth: number;
+  isCollapsed: boolean;
+  onToggle: () => void;
+  isSelected: boolean; // This body receives new blocks
+  onSelect: () => void;
+  onRemove: (id: string) => void;
+  onUpdate: (id: string, value: number, expr?: string) => void;
+  onRename: (id: string, name: string) => void;
+  onConditionChange: (id: string, condition: Condition) => void;
+  isActive: boolean;
+  hasError: boolean;
+  loopFrame?: LoopFrame;
+  procedures: ProcedureHandlers;
+  unit: DistanceUnit;
+  disabled: boolean;
+  t: (key: string) => string;
+  children?: React.ReactNode;
+}> = ({ cmd, depth, isCollapsed, onToggle, isSelected, onSelect, onRemove, onUpdate, onRename, onConditionChange, isActive, hasError, loopFrame, procedures, unit, disabled, t, children }) => {
+  const rowRef = useRef<HTMLDivElement>(null);
+  const isContainer = hasBody(cmd.type);
+
+  // Keep the executing block visible
+  useEffect(() => {
+    if (isActive || hasError) rowRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [isActive, hasError]);
+
+  return (
+    <li role="treeitem" aria-expanded={isContainer ? !isCollapsed : undefined}>
+      <div
+        ref={rowRef}
+        style={{ paddingLeft: depth * 20 }}
+        className={`group flex items-center gap-2 py-0.5 rounded ${isActive ? 'bg-yellow-100 dark:bg-yellow-900/30' : hasError ? 'bg-red-100 dark:bg-red-900/30' : ''}`}
+      >
+        {isContainer ? (
+          <button
+            onClick={onToggle}
+            className="p-0.5 rounded text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700"
+            title={isCollapsed ? t('expand') : t('collapse')}
+            aria-label={isCollapsed ? t('expand') : t('collapse')}
+          >
+            {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+          </button>
+        ) : (
+          <span className="w-[18px]" />
+        )}
+
+        <span className={`text-xs font-bold uppercase tracking-wide px-2 py-1 rounded border ${getCommandColor(cmd.type)} ${isActive ? 'ring-2 ring-yellow-400' : hasError ? 'ring-2 ring-red-500' : loopFrame ? 'ring-2 ring-yellow-300' : ''}`}>
+          {getCommandLabel(cmd.type, t)}
+        </span>
+
+        {cmd.type === CommandType.DEFINE ? <DefineEditor cmd={cmd} handlers={procedures} disabled={disabled} t={t} />
+          : cmd.type === CommandType.CALL ? <CallEditor cmd={cmd} handlers={procedures} disabled={disabled} t={t} />
+          : hasCommandValue(cmd.type) ? <CommandValueEditor cmd={cmd} onUpdate={onUpdate} onRename={onRename} onConditionChange={onConditionChange} unit={unit} disabled={disabled} t={t} /> : (
+          <span className="opacity-60 text-slate-500">
+            {cmd.type === CommandType.ELSE ? <Split size={14} /> : cmd.type === CommandType.PEN_UP ? <PenOff size={14} /> : <Pen size={14} />}
+          </span>
+        )}
+
+        {loopFrame && (
+          <span className="bg-yellow-400 text-yellow-900 text-[10px] font-bold font-mono rounded-full px-1.5 py-0.5" title={t('loop_iteration')}>
+            {loopFrame.iteration}/{loopFrame.total}
+          </span>
+        )}
+
+        {isContainer && (
+          <button
+            onClick={onSelect}
+            className={`flex items-center gap-1 text-[10px] px-2 py-0.5 rounded ${isSelected ? 'bg-purple-500 text-white' : 'bg-purple-100 text-purple-800 hover:bg-purple-200 dark:bg-purple-900/50 dark:text-purple-200'}`}
+            title={t('add_here')}
+          >
+            <Plus size={10} /> {cmd.children?.length || 0}
+          </button>
+        )}
+
+        <button
+          onClick={() => onRemove(cmd.id)}
+          disabled={disabled}
+          className="p-0.5 rounded text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100 disabled:invisible hover:bg-red-100 dark:hover:bg-red-900/40 transition-opacity"
+          title={t('delete')}
+          aria-label={t('delete')}
+        >
+          <X size={12} />
+        </button>
+      </div>
+
+      {isContainer && !isCollapsed && (
+        cmd.children && cmd.children.length > 0 ? children : (
+          <div style={{ paddingLeft: (depth + 1) * 20 + 26 }} className="text-xs italic text-slate-400 dark:text-slate-500 py-0.5">
+            {t('empty_loop')}
+          </div>
+        )
+      )}
+    </li>
+  );
+};
@@ -0,0 +1,145 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+import React, { useState } from 'react';
+import { X, Plus, Pencil, Copy, Trash2, User } from 'lucide-react';
+import { Project } from '../utils/projectStore';
+
+interface ProjectManagerProps {
+  projects: Project[];
+  currentProjectId: string;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onStudentNameChange: (id: string, studentName: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+export const ProjectManager: React.FC<ProjectManagerProps> = ({
+  projects,
+  currentProjectId,
+  onOpen,
+  onCreate,
+  onRename,
+  onStudentNameChange,
+  onDuplicate,
+  onDelete,
+  onClose,
+  t
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // Most recently edited first
+  const sorted = [...projects].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 z-40 bg-black/30" onClick={onClose}></div>
+
+      <div className="fixed inset-x-4 top-16 md:left-1/2 md:-translate-x-1/2 md:w-[40rem] max-h-[80vh] z-50 flex flex-col bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700">
+        <div className="flex justify-between items-center p-4 border-b border-slate-200 dark:border-slate-700">
+          <h3 className="font-bold text-slate-800 dark:text-slate-200 text-sm uppercase">{t('projects')}</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onCreate}
+              className="flex items-center gap-1 px-3 py-1 text-xs font-semibold rounded-full bg-brand-500 hover:bg-brand-600 text-white"
+            >
+              <Plus size={14} /> {t('new_project')}
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500"
+              title={t('close')}
+              aria-label={t('close')}
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <ul className="overflow-y-auto p-4 flex flex-col gap-3">
+          {sorted.map(project => {
+            const isCurrent = project.id === currentProjectId;
+            return (
+              <li
+                key={project.id}
+                className={`flex gap-3 p-2 rounded-lg border ${isCurrent ? 'border-brand-500 bg-brand-50 dark:bg-brand-900/30' : 'border-slate-200 dark:border-slate-700'}`}
+              >
+                <button
+                  onClick={() => onOpen(project.id)}
+                  className="flex-shrink-0 rounded overflow-hidden border border-slate-200 dark:border-slate-600 hover:ring-2 hover:ring-brand-500"
+                  title={t('open_project')}
+                  aria-label={t('open_project')}
+                >
+                  {project.thumbnail
+                    ? <img src={project.thumbnail} alt={project.name} className="w-32 h-24 object-cover" />
+                    : <div className="w-32 h-24 bg-slate-100 dark:bg-slate-700" />}
+                </button>
+
+                <div className="flex-1 min-w-0 flex flex-col gap-1">
+                  {editingId === project.id ? (
+                    <input
+                      autoFocus
+                      defaultValue={project.name}
+                      onBlur={(e) => {
+                        onRename(project.id, e.target.value.trim() || project.name);
+                        setEditingId(null);
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="text-sm font-semibold border rounded px-1 bg-white dark:bg-slate-900 dark:text-white dark:border-slate-600"
+                    />
+                  ) : (
+                    <span className="text-sm font-semibold text-slate-800 dark:text-slate-100 truncate">{project.name}</span>
+                  )}
+
+                  <label className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+                    <User size={12} />
+                    <input
+                      value={project.studentName}
+                      onChange={(e) => onStudentNameChange(project.id, e.target.value)}
+                      placeholder={t('student_name')}
+                      className="flex-1 min-w-0 bg-transparent border-b border-dashed border-slate-300 dark:border-slate-600 focus:outline-none focus:border-brand-500"
+                    />
+                  </label>
+
+                  <span className="text-[10px] text-slate-400">
+                    {t('last_saved')}: {new Date(project.updatedAt).toLocaleString()}
+                  </span>
+
+                  <div className="flex gap-1 mt-auto text-slate-500 dark:text-slate-400">
+                    <button onClick={() => setEditingId(project.id)} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700" title={t('rename')} aria-label={t('rename')}>
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => onDuplicate(project.id)} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700" title={t('duplicate')} aria-label={t('duplicate')}>
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(t('confirm_delete_project').replace('{name}', project.name))) onDelete(project.id);
+                      }}
+                      className="p-1 rounded hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900/40"
+                      title={t('delete')}
+                      aria-label={t('delete')}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </>
+  );
+};
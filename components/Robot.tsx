@@ -10,23 +10,35 @@ import { COLORS } from '../constants';
 
 interface RobotProps {
   state: RobotState;
+  size?: number; // Pixels, see getRobotSize
+  transitionDuration?: number; // ms, follows the execution speed
+  svgRef?: React.Ref<SVGSVGElement>; // Used to copy the robot into image exports
+  crashed?: boolean; // Shakes and glows red after hitting a wall
 }
 
-export const Robot: React.FC<RobotProps> = ({ state }) => {
+export const Robot: React.FC<RobotProps> = ({ state, size = 64, transitionDuration = 500, svgRef, crashed = false }) => {
   // We use inline styles for the transform to ensure smooth animation
   // The +90 deg adjustment is because 0 degrees in math is "East/Right", 
   // but our robot drawing faces "Up/North" natively.
   return (
     <div
-      className="absolute w-16 h-16 z-30 pointer-events-none transition-transform duration-500 ease-in-out"
+      className="absolute z-30 pointer-events-none transition-transform ease-in-out"
       style={{
         left: 0,
         top: 0,
-        // Translate to position, then center (-32px is half of w-16), then rotate
-        transform: `translate(${state.x - 32}px, ${state.y - 32}px) rotate(${state.angle + 90}deg)`,
+        width: size,
+        height: size,
+        transitionDuration: `${transitionDuration}ms`,
+        // Translate to position, then center, then rotate
+        transform: `translate(${state.x - size / 2}px, ${state.y - size / 2}px) rotate(${state.angle + 90}deg)`,
       }}
     >
-      <svg viewBox="0 0 100 100" className="w-full h-full drop-shadow-xl">
+      <svg
+        ref={svgRef}
+        aria-hidden="true"
+        viewBox="0 0 100 100"
+        className={`w-full h-full ${crashed ? 'animate-crash drop-shadow-[0_0_8px_rgba(239,68,68,0.9)]' : 'drop-shadow-xl'}`}
+      >
         {/* Left Track */}
         <rect x="15" y="10" width="15" height="80" rx="4" fill="#334155" stroke="#1e293b" strokeWidth="2" />
         
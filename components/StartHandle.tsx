@@ -0,0 +1,89 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+import React, { useRef, useState } from 'react';
+import { BoardSettings, Point } from '../types';
+import { moveStart } from '../utils/board';
+
+interface StartHandleProps {
+  board: BoardSettings;
+  onChange: (board: BoardSettings) => void;
+  t: (key: string) => string;
+}
+
+const HANDLE_RADIUS = 10;
+const ANGLE_STEP = 15; // Degrees, the knob snaps to them
+
+// Where the robot starts: drag the ring to move it (snaps to grid crossings and cell centers)
+// and the knob in front of it to turn it
+export const StartHandle: React.FC<StartHandleProps> = ({ board, onChange, t }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<'move' | 'turn' | null>(null);
+  const { x, y, angle } = board.start;
+  const knobDistance = Math.max(board.cellSize, 3 * HANDLE_RADIUS);
+  const knob = {
+    x: x + Math.cos((angle * Math.PI) / 180) * knobDistance,
+    y: y + Math.sin((angle * Math.PI) / 180) * knobDistance,
+  };
+
+  const toBoardPoint = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const startDrag = (mode: 'move' | 'turn') => (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(mode);
+  };
+
+  const handleMove = (e: React.PointerEvent) => {
+    if (!dragging) return;
+    const point = toBoardPoint(e);
+    if (dragging === 'move') {
+      const next = moveStart(board, { ...board.start, x: point.x, y: point.y });
+      if (next.start.x !== x || next.start.y !== y) onChange(next);
+      return;
+    }
+    const raw = (Math.atan2(point.y - y, point.x - x) * 180) / Math.PI;
+    const snapped = Math.round(raw / ANGLE_STEP) * ANGLE_STEP;
+    if (snapped !== angle) onChange(moveStart(board, { ...board.start, angle: snapped }));
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      width={board.width}
+      height={board.height}
+      className="absolute inset-0 z-30 pointer-events-none"
+      onPointerMove={handleMove}
+      onPointerUp={() => setDragging(null)}
+    >
+      <line x1={x} y1={y} x2={knob.x} y2={knob.y} stroke="#10b981" strokeWidth={2} strokeDasharray="4 3" />
+      <circle
+        cx={x}
+        cy={y}
+        r={HANDLE_RADIUS}
+        fill="rgba(16, 185, 129, 0.15)"
+        stroke="#10b981"
+        strokeWidth={2}
+        className={`pointer-events-auto ${dragging === 'move' ? 'cursor-grabbing' : 'cursor-grab'}`}
+        onPointerDown={startDrag('move')}
+      >
+        <title>{t('drag_start')}</title>
+      </circle>
+      <circle
+        cx={knob.x}
+        cy={knob.y}
+        r={HANDLE_RADIUS / 2 + 1}
+        fill="#10b981"
+        className="pointer-events-auto cursor-alias"
+        onPointerDown={startDrag('turn')}
+      >
+        <title>{t('turn_start')}</title>
+      </circle>
+    </svg>
+  );
+};
@@ -0,0 +1,71 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+import React from 'react';
+import { X, Lightbulb } from 'lucide-react';
+import { Suggestion } from '../utils/simplify';
+import { programToText } from '../utils/programText';
+import { Language } from '../translations';
+
+interface SuggestionsPanelProps {
+  suggestions: Suggestion[]; // For the program on screen
+  onApply: (suggestion: Suggestion) => void;
+  disabled: boolean; // No editing while the program runs
+  language: Language; // Of the blocks in the previews
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+const getText = (suggestion: Suggestion, t: (key: string) => string) => {
+  return t(`suggest_${suggestion.kind}`)
+    .replace('{position}', suggestion.position)
+    .replace('{count}', String(suggestion.count))
+    .replace('{times}', String(suggestion.times ?? ''));
+};
+
+// Ways to make the program shorter, each applied with one click
+export const SuggestionsPanel: React.FC<SuggestionsPanelProps> = ({ suggestions, onApply, disabled, language, onClose, t }) => (
+  <div className="w-full max-w-[800px] flex flex-col gap-2 p-3 rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-800 text-sm">
+    <div className="flex items-center gap-2">
+      <Lightbulb size={18} className="flex-shrink-0 text-yellow-500" />
+      <span className="flex-1 font-bold text-slate-800 dark:text-slate-100">{t('suggestions')}</span>
+      <button
+        onClick={onClose}
+        className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500"
+        title={t('close')}
+        aria-label={t('close')}
+      >
+        <X size={16} />
+      </button>
+    </div>
+
+    {suggestions.length === 0 ? (
+      <p className="pl-7 text-xs text-slate-500 dark:text-slate-400">{t('suggestions_none')}</p>
+    ) : (
+      <ul className="flex flex-col gap-2 pl-7 text-xs">
+        {suggestions.map(suggestion => (
+          <li key={`${suggestion.kind}:${suggestion.parentId}:${suggestion.index}`} className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <p className="text-slate-600 dark:text-slate-300">{getText(suggestion, t)}</p>
+              <p className="font-mono text-[11px] text-brand-600 dark:text-brand-400 truncate">
+                → {suggestion.replacement.length > 0
+                  ? programToText(suggestion.replacement, language).replace(/\s+/g, ' ')
+                  : t('suggest_remove')}
+              </p>
+            </div>
+            <button
+              onClick={() => onApply(suggestion)}
+              disabled={disabled}
+              className="flex-shrink-0 px-3 py-1 rounded-full bg-brand-500 hover:bg-brand-600 text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('apply')}
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -4,31 +4,155 @@
  * Licensed under AGPL v3
  */
 
-import React from 'react';
-import { Command, CommandType } from '../types';
-import { X, Plus } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Command, CommandType, Condition, DistanceUnit } from '../types';
+import { DRAG_TYPES } from '../constants';
+import { LoopFrame } from '../utils/interpreter';
+import { KeyboardMove, hasBody } from '../utils/commandTree';
+import { CommandValueEditor, getCommandColor, getCommandLabel, hasCommandValue } from './CommandValueEditor';
+import { ProcedureHandlers, DefineEditor, CallEditor } from './ProcedureEditors';
+import { X, Plus, Pen, PenOff, Split } from 'lucide-react';
 
 interface TimelineProps {
   commands: Command[];
   onRemove: (id: string) => void;
-  onUpdate: (id: string, value: number) => void;
+  onUpdate: (id: string, value: number, expr?: string) => void;
+  onRename: (id: string, name: string) => void;
+  onConditionChange: (id: string, condition: Condition) => void;
   onEnterNested?: (commandId: string) => void; // When user wants to edit inside a loop
   parentId?: string;
   isNestedView?: boolean;
+  containerType?: CommandType; // Block whose body the nested view shows
   onGoBack?: () => void;
+  onMove?: (id: string, parentId: string | null, index: number) => void;
+  onInsert?: (type: CommandType, parentId: string | null, index: number) => void; // Dropped from the palette
+  onKeyboardMove?: (id: string, move: KeyboardMove) => void;
+  disabled?: boolean; // No editing while the program runs
+  activeCommandId?: string; // Block being executed by the debugger
+  activeLoops?: LoopFrame[]; // Loops enclosing the executing block
+  errorCommandId?: string; // Block that halted the last run
+  procedures: ProcedureHandlers;
+  unit: DistanceUnit;
   t: (key: string) => string;
 }
 
+// Only react to drags that carry a block or a palette command
+const isCommandDrag = (e: React.DragEvent) => {
+  return e.dataTransfer.types.includes(DRAG_TYPES.block) || e.dataTransfer.types.includes(DRAG_TYPES.newCommand);
+};
+
+const isBranch = (type?: CommandType) => type === CommandType.IF || type === CommandType.ELSE;
+
+// Title and colors of the button that opens a body
+const getBodyButton = (type: CommandType) => {
+  if (type === CommandType.DEFINE) {
+    return { title: 'drop_into_procedure', color: 'bg-indigo-200 hover:bg-indigo-300 text-indigo-900 dark:bg-indigo-800 dark:hover:bg-indigo-700 dark:text-indigo-100' };
+  }
+  if (isBranch(type)) {
+    return { title: 'drop_into_branch', color: 'bg-teal-200 hover:bg-teal-300 text-teal-900 dark:bg-teal-800 dark:hover:bg-teal-700 dark:text-teal-100' };
+  }
+  return { title: 'drop_into_loop', color: 'bg-purple-200 hover:bg-purple-300 text-purple-900 dark:bg-purple-800 dark:hover:bg-purple-700 dark:text-purple-100' };
+};
+
+const KEY_MOVES: Record<string, KeyboardMove> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowDown: 'in',
+  ArrowUp: 'out',
+};
+
+// Plain arrows, Home and End walk the focus along the blocks of the sequence
+const focusSibling = (block: HTMLElement, key: string) => {
+  const blocks = Array.from(block.parentElement?.querySelectorAll<HTMLElement>(':scope > [data-block]') ?? []);
+  const index = blocks.indexOf(block);
+  const next = key === 'Home' ? 0 : key === 'End' ? blocks.length - 1 : key === 'ArrowLeft' ? index - 1 : key === 'ArrowRight' ? index + 1 : -1;
+  if (next < 0 || next >= blocks.length) return false;
+  blocks[next].focus();
+  return true;
+};
+
 export const Timeline: React.FC<TimelineProps> = ({ 
   commands, 
   onRemove, 
   onUpdate, 
+  onRename,
+  onConditionChange,
   onEnterNested, 
   parentId,
   isNestedView = false,
+  containerType,
   onGoBack,
+  onMove,
+  onInsert,
+  onKeyboardMove,
+  disabled = false,
+  activeCommandId,
+  activeLoops = [],
+  errorCommandId,
+  procedures,
+  unit,
   t
 }) => {
+  // Position where a dragged block would land, shown as a marker
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDrop = (e: React.DragEvent, targetParentId: string | null, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropIndex(null);
+    if (disabled) return;
+
+    const blockId = e.dataTransfer.getData(DRAG_TYPES.block);
+    const newType = e.dataTransfer.getData(DRAG_TYPES.newCommand) as CommandType;
+    if (blockId) onMove?.(blockId, targetParentId, index);
+    else if (newType) onInsert?.(newType, targetParentId, index);
+  };
+
+  const containerId = parentId ?? null;
+
+  const dropZoneProps = {
+    onDragOver: (e: React.DragEvent) => {
+      if (disabled || !isCommandDrag(e)) return;
+      e.preventDefault();
+      // Empty space after the last block
+      if (e.target === e.currentTarget) setDropIndex(commands.length);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropIndex(null);
+    },
+    onDrop: (e: React.DragEvent) => handleDrop(e, containerId, dropIndex ?? commands.length),
+  };
+
+  const dropMarker = <div className="flex-shrink-0 w-1 self-stretch my-2 rounded bg-brand-500" />;
+
+  const renderBlocks = () => (
+    <>
+      {commands.map((cmd, index) => (
+        <React.Fragment key={cmd.id}>
+          {dropIndex === index && dropMarker}
+          <CommandBlock 
+            cmd={cmd} 
+            onRemove={onRemove} 
+            onUpdate={onUpdate}
+            onRename={onRename}
+            onConditionChange={onConditionChange}
+            onEnterNested={onEnterNested}
+            onDragOverBlock={(before) => setDropIndex(before ? index : index + 1)}
+            onDropInside={(e) => handleDrop(e, cmd.id, cmd.children?.length || 0)}
+            onKeyboardMove={onKeyboardMove}
+            disabled={disabled}
+            isActive={cmd.id === activeCommandId}
+            hasError={cmd.id === errorCommandId}
+            loopFrame={activeLoops.find(frame => frame.commandId === cmd.id)}
+            procedures={procedures}
+            unit={unit}
+            t={t}
+          />
+        </React.Fragment>
+      ))}
+      {dropIndex === commands.length && commands.length > 0 && dropMarker}
+    </>
+  );
   
   if (isNestedView && parentId) {
     return (
@@ -36,50 +160,44 @@ export const Timeline: React.FC<TimelineProps> = ({
          <div className="flex items-center gap-2 mb-2 pb-2 border-b border-slate-200 dark:border-slate-700">
            <button 
              onClick={onGoBack}
+             // Dropping a block here takes it out of the loop
+             onDragOver={(e) => { if (!disabled && e.dataTransfer.types.includes(DRAG_TYPES.block)) e.preventDefault(); }}
+             onDrop={(e) => {
+               e.preventDefault();
+               const blockId = e.dataTransfer.getData(DRAG_TYPES.block);
+               if (blockId && !disabled) onKeyboardMove?.(blockId, 'out');
+             }}
+             title={t('drop_to_move_out')}
              className="text-xs font-bold text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200 flex items-center gap-1 bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded"
            >
              ← {t('back')}
            </button>
-           <span className="text-xs text-purple-600 dark:text-purple-400 font-semibold">{t('editing_loop')}</span>
+           {containerType === CommandType.DEFINE
+             ? <span className="text-xs text-indigo-600 dark:text-indigo-400 font-semibold">{t('editing_procedure')}</span>
+             : isBranch(containerType)
+             ? <span className="text-xs text-teal-600 dark:text-teal-400 font-semibold">{t('editing_branch')}</span>
+             : <span className="text-xs text-purple-600 dark:text-purple-400 font-semibold">{t('editing_loop')}</span>}
          </div>
-         <div className="flex gap-2 overflow-x-auto pb-2 flex-1 scrollbar-thin scrollbar-thumb-slate-300 dark:scrollbar-thumb-slate-600">
+         <div {...dropZoneProps} className="flex gap-2 overflow-x-auto pb-2 flex-1 scrollbar-thin scrollbar-thumb-slate-300 dark:scrollbar-thumb-slate-600">
             {commands.length === 0 && (
-              <div className="flex items-center justify-center w-full text-slate-400 dark:text-slate-500 text-sm italic border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-lg">
+              <div className={`flex items-center justify-center w-full text-slate-400 dark:text-slate-500 text-sm italic border-2 border-dashed rounded-lg pointer-events-none ${dropIndex !== null ? 'border-brand-500' : 'border-slate-200 dark:border-slate-700'}`}>
                 {t('empty_loop')}
               </div>
             )}
-            {commands.map(cmd => (
-              <CommandBlock 
-                key={cmd.id} 
-                cmd={cmd} 
-                onRemove={onRemove} 
-                onUpdate={onUpdate}
-                onEnterNested={onEnterNested} 
-                t={t}
-              />
-            ))}
+            {renderBlocks()}
          </div>
        </div>
     )
   }
 
   return (
-    <div className="flex gap-2 overflow-x-auto pb-2 h-full items-center scrollbar-thin scrollbar-thumb-slate-300 dark:scrollbar-thumb-slate-600">
+    <div {...dropZoneProps} className="flex gap-2 overflow-x-auto pb-2 h-full items-center scrollbar-thin scrollbar-thumb-slate-300 dark:scrollbar-thumb-slate-600">
       {commands.length === 0 && (
-        <div className="text-slate-400 dark:text-slate-500 text-sm italic w-full text-center">
+        <div className={`text-slate-400 dark:text-slate-500 text-sm italic w-full text-center pointer-events-none ${dropIndex !== null ? 'text-brand-500' : ''}`}>
           {t('empty_cmds')}
         </div>
       )}
-      {commands.map((cmd) => (
-        <CommandBlock 
-          key={cmd.id} 
-          cmd={cmd} 
-          onRemove={onRemove} 
-          onUpdate={onUpdate}
-          onEnterNested={onEnterNested}
-          t={t}
-        />
-      ))}
+      {renderBlocks()}
     </div>
   );
 };
@@ -87,65 +205,118 @@ export const Timeline: React.FC<TimelineProps> = ({
 const CommandBlock: React.FC<{
   cmd: Command;
   onRemove: (id: string) => void;
-  onUpdate: (id: string, value: number) => void;
+  onUpdate: (id: string, value: number, expr?: string) => void;
+  onRename: (id: string, name: string) => void;
+  onConditionChange: (id: string, condition: Condition) => void;
   onEnterNested?: (id: string) => void;
+  onDragOverBlock: (before: boolean) => void; // Pointer on the left or right half
+  onDropInside: (e: React.DragEvent) => void; // Dropped on a REPEAT body
+  onKeyboardMove?: (id: string, move: KeyboardMove) => void;
+  disabled: boolean;
+  isActive?: boolean;
+  hasError?: boolean;
+  loopFrame?: LoopFrame; // Set when execution is currently inside this REPEAT
+  procedures: ProcedureHandlers;
+  unit: DistanceUnit;
   t: (key: string) => string;
-}> = ({ cmd, onRemove, onUpdate, onEnterNested, t }) => {
-  
-  const getColor = () => {
-    switch(cmd.type) {
-      case CommandType.FORWARD: return 'bg-emerald-100 border-emerald-300 text-emerald-800 dark:bg-emerald-900/50 dark:border-emerald-700 dark:text-emerald-200';
-      case CommandType.BACKWARD: return 'bg-emerald-100 border-emerald-300 text-emerald-800 dark:bg-emerald-900/50 dark:border-emerald-700 dark:text-emerald-200';
-      case CommandType.TURN_LEFT: return 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900/50 dark:border-blue-700 dark:text-blue-200';
-      case CommandType.TURN_RIGHT: return 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900/50 dark:border-blue-700 dark:text-blue-200';
-      case CommandType.REPEAT: return 'bg-purple-100 border-purple-300 text-purple-800 dark:bg-purple-900/50 dark:border-purple-700 dark:text-purple-200';
-      default: return 'bg-slate-100 dark:bg-slate-800';
-    }
-  };
+}> = ({ cmd, onRemove, onUpdate, onRename, onConditionChange, onEnterNested, onDragOverBlock, onDropInside, onKeyboardMove, disabled, isActive = false, hasError = false, loopFrame, procedures, unit, t }) => {
+  const blockRef = useRef<HTMLDivElement>(null);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const bodyButton = getBodyButton(cmd.type);
 
-  const getLabel = () => {
-    switch(cmd.type) {
-      case CommandType.FORWARD: return t('cmd_forward');
-      case CommandType.BACKWARD: return t('cmd_backward');
-      case CommandType.TURN_LEFT: return t('cmd_left');
-      case CommandType.TURN_RIGHT: return t('cmd_right');
-      case CommandType.REPEAT: return t('cmd_repeat');
+  // Keep the executing block visible in the scrolling timeline
+  useEffect(() => {
+    if (isActive || hasError || loopFrame) {
+      blockRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' });
     }
-  };
-
-  const getUnit = () => {
-    if (cmd.type === CommandType.REPEAT) return t('times');
-    if (cmd.type === CommandType.TURN_LEFT || cmd.type === CommandType.TURN_RIGHT) return '°';
-    return 'cm';
-  };
-
+  }, [isActive, hasError, loopFrame?.iteration]);
+  
   return (
-    <div className={`relative flex-shrink-0 flex flex-col items-center justify-between w-28 h-28 p-2 rounded-lg border-2 ${getColor()} shadow-sm transition-transform hover:scale-105 group`}>
+    <div
+      ref={blockRef}
+      draggable={!disabled}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_TYPES.block, cmd.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onDragOver={(e) => {
+        if (disabled || !isCommandDrag(e)) return;
+        e.preventDefault();
+        const rect = e.currentTarget.getBoundingClientRect();
+        onDragOverBlock(e.clientX < rect.left + rect.width / 2);
+      }}
+      tabIndex={0}
+      data-block
+      role="group"
+      aria-label={getCommandLabel(cmd.type, t)}
+      onKeyDown={(e) => {
+        if (e.target !== e.currentTarget) return;
+        // Alt + arrows: keyboard alternative to drag and drop
+        const move = KEY_MOVES[e.key];
+        if (e.altKey) {
+          if (!move || disabled) return;
+          e.preventDefault();
+          onKeyboardMove?.(cmd.id, move);
+        } else if (e.key === 'Delete' || e.key === 'Backspace') {
+          if (disabled) return;
+          e.preventDefault();
+          // Keep the focus in the sequence
+          if (!focusSibling(e.currentTarget, 'ArrowRight')) focusSibling(e.currentTarget, 'ArrowLeft');
+          onRemove(cmd.id);
+        } else if (move || e.key === 'Home' || e.key === 'End') {
+          // Arrows on a block move the focus, they don't add blocks (see App)
+          e.preventDefault();
+          focusSibling(e.currentTarget, e.key);
+        }
+      }}
+      title={t('move_hint')}
+      className={`relative flex-shrink-0 flex flex-col items-center justify-between ${[CommandType.REPEAT, CommandType.DEFINE, CommandType.CALL, CommandType.SET_VARIABLE, CommandType.IF].includes(cmd.type) ? 'min-w-[7rem] min-h-[7rem]' : 'w-28 h-28'} p-2 rounded-lg border-2 ${getCommandColor(cmd.type)} shadow-sm transition-transform hover:scale-105 group focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-500 ${disabled ? '' : 'cursor-grab active:cursor-grabbing'} ${isActive ? 'ring-4 ring-yellow-400 scale-105' : hasError ? 'ring-4 ring-red-500' : loopFrame ? 'ring-2 ring-yellow-300' : ''}`}
+    >
+      {loopFrame && (
+        <span
+          className="absolute -top-2 -left-2 bg-yellow-400 text-yellow-900 text-[10px] font-bold font-mono rounded-full px-1.5 py-0.5 shadow-sm z-10"
+          title={t('loop_iteration')}
+        >
+          {loopFrame.iteration}/{loopFrame.total}
+        </span>
+      )}
       <button 
         onClick={() => onRemove(cmd.id)}
-        className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity shadow-sm z-10"
+        disabled={disabled}
+        className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 focus:opacity-100 disabled:invisible transition-opacity shadow-sm z-10"
+        title={t('delete')}
+        aria-label={t('delete')}
       >
         <X size={12} />
       </button>
 
-      <span className="text-xs font-bold uppercase tracking-wide text-center leading-tight">{getLabel()}</span>
-
-      <div className="flex items-center gap-1 my-1">
-        <input
-          type="number"
-          value={cmd.value}
-          onChange={(e) => onUpdate(cmd.id, parseInt(e.target.value) || 0)}
-          className="w-12 text-center text-sm font-mono border rounded p-1 bg-white/50 focus:bg-white focus:outline-none focus:ring-1 focus:ring-slate-400 dark:bg-black/20 dark:text-white dark:border-slate-600"
-          min={1}
-          max={360}
-        />
-        <span className="text-[10px] opacity-70">{getUnit()}</span>
-      </div>
-
-      {cmd.type === CommandType.REPEAT ? (
+      <span className="text-xs font-bold uppercase tracking-wide text-center leading-tight">{getCommandLabel(cmd.type, t)}</span>
+
+      {cmd.type === CommandType.DEFINE ? <DefineEditor cmd={cmd} handlers={procedures} disabled={disabled} t={t} />
+        : cmd.type === CommandType.CALL ? <CallEditor cmd={cmd} handlers={procedures} disabled={disabled} t={t} />
+        : hasCommandValue(cmd.type) ? <CommandValueEditor cmd={cmd} onUpdate={onUpdate} onRename={onRename} onConditionChange={onConditionChange} unit={unit} disabled={disabled} t={t} /> : (
+        <div className="my-1 opacity-70">
+          {cmd.type === CommandType.ELSE ? <Split size={20} /> : cmd.type === CommandType.PEN_UP ? <PenOff size={20} /> : <Pen size={20} />}
+        </div>
+      )}
+
+      {hasBody(cmd.type) ? (
         <button 
           onClick={() => onEnterNested && onEnterNested(cmd.id)}
-          className="w-full text-[10px] bg-purple-200 hover:bg-purple-300 text-purple-900 dark:bg-purple-800 dark:hover:bg-purple-700 dark:text-purple-100 px-2 py-1 rounded flex items-center justify-center gap-1 transition-colors"
+          // Dropping a block here appends it to the body
+          onDragOver={(e) => {
+            if (disabled || !isCommandDrag(e)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setIsDropTarget(true);
+          }}
+          onDragLeave={() => setIsDropTarget(false)}
+          onDrop={(e) => {
+            setIsDropTarget(false);
+            onDropInside(e);
+          }}
+          title={t(bodyButton.title)}
+          className={`w-full text-[10px] ${isDropTarget ? 'ring-2 ring-brand-500' : ''} ${bodyButton.color} px-2 py-1 rounded flex items-center justify-center gap-1 transition-colors`}
         >
           <span className="font-bold">{cmd.children?.length || 0}</span>
           <Plus size={10} />
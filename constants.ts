@@ -4,6 +4,7 @@
  * Licensed under AGPL v3
  */
 
+// Default board. Each program can change it (see BoardSettings in types.ts)
 export const GRID_SIZE = 40; // Size of one grid cell in pixels
 export const CANVAS_WIDTH = 800;
 export const CANVAS_HEIGHT = 600;
@@ -13,7 +14,63 @@ export const START_X = CANVAS_WIDTH / 2;
 export const START_Y = CANVAS_HEIGHT / 2;
 export const START_ANGLE = -90; // Pointing UP
 
-export const ANIMATION_DELAY = 500; // ms between steps
+// Allowed board settings. The board is edited in whole cells
+export const PX_PER_CM = 96 / 2.54; // CSS centimetre
+
+export const BOARD_LIMITS = {
+  cellSize: { min: 10, max: 100 },
+  cells: { min: 4, max: 50 }, // Columns and rows
+};
+
+export const ANIMATION_DELAY = 500; // ms between steps (normal speed)
+
+// Execution speeds. Delay in ms between steps, 0 = instant (only the final drawing is shown)
+export const SPEED_LEVELS = [
+  { id: 'slow', delay: 1000 },
+  { id: 'normal', delay: ANIMATION_DELAY },
+  { id: 'fast', delay: 200 },
+  { id: 'very_fast', delay: 50 },
+  { id: 'instant', delay: 0 },
+] as const;
+export type SpeedId = typeof SPEED_LEVELS[number]['id'];
+export const DEFAULT_SPEED: SpeedId = 'normal';
+
+// Drag and drop payload types (timeline blocks and new commands from the palette)
+export const DRAG_TYPES = {
+  block: 'application/x-robodibuix-block',
+  newCommand: 'application/x-robodibuix-command',
+};
+
+// localStorage keys
+export const STORAGE_KEYS = {
+  speed: 'robodibuix.speed',
+  language: 'robodibuix.language',
+  theme: 'robodibuix.theme',
+  projects: 'robodibuix.projects',
+  currentProject: 'robodibuix.currentProject',
+  challengeStars: 'robodibuix.challengeStars',
+  customChallenges: 'robodibuix.customChallenges',
+};
+
+export const AUTOSAVE_DELAY = 500; // ms of inactivity before saving the project
+export const MAX_HISTORY = 100; // Undo steps kept per project
+export const MAX_EXECUTION_STEPS = 10000; // Safety limit for runaway loops
+export const MAX_CALL_DEPTH = 100; // Safety limit for runaway recursion
+
+// Pen styles. SET_COLOR stores an index into PEN_COLORS, SET_WIDTH stores the width in pixels.
+export const PEN_COLORS = [
+  '#0ea5e9', // Sky (default)
+  '#ef4444', // Red
+  '#f97316', // Orange
+  '#eab308', // Yellow
+  '#22c55e', // Green
+  '#6366f1', // Indigo
+  '#a855f7', // Purple
+  '#0f172a', // Black
+];
+export const PEN_WIDTHS = [1, 2, 4, 8, 12, 16];
+export const DEFAULT_PEN_COLOR = PEN_COLORS[0];
+export const DEFAULT_PEN_WIDTH = 4;
 
 export const COLORS = {
   grid: '#e2e8f0',
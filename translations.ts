@@ -12,6 +12,17 @@ export const translations = {
     subtitle: 'Programa els moviments i dibuixa!',
     run: 'Executar',
     stop: 'Aturar',
+    pause: 'Pausa',
+    resume: 'Continuar',
+    step: 'Pas endavant',
+    step_back: 'Pas enrere',
+    loop_iteration: 'Volta del bucle',
+    speed: 'Velocitat',
+    speed_slow: 'Lenta',
+    speed_normal: 'Normal',
+    speed_fast: 'Ràpida',
+    speed_very_fast: 'Molt ràpida',
+    speed_instant: 'Instantània',
     clear: 'Esborrar',
     commands: 'Ordres',
     cmd_forward: 'Endavant',
@@ -19,6 +30,10 @@ export const translations = {
     cmd_left: 'Esquerra',
     cmd_right: 'Dreta',
     cmd_repeat: 'Repetir',
+    cmd_pen_up: 'Aixecar llapis',
+    cmd_pen_down: 'Baixar llapis',
+    cmd_color: 'Color',
+    cmd_width: 'Gruix',
     sequence: 'Seqüència',
     loop_view: 'Dins del bucle',
     main_view: 'Principal',
@@ -36,6 +51,264 @@ export const translations = {
     footer_auth: '© David Cordones',
     license_code: 'Licencia del código: AGPL v3',
     license_content: 'Contenido: CC BY-SA 4.0',
+    error_too_many_steps: 'El programa és massa llarg. L\'hem aturat.',
+    kw_forward: 'ENDAVANT',
+    kw_backward: 'ENRERE',
+    kw_left: 'ESQUERRA',
+    kw_right: 'DRETA',
+    kw_repeat: 'REPETIR',
+    kw_pen_up: 'AIXECA',
+    kw_pen_down: 'BAIXA',
+    kw_color: 'COLOR',
+    kw_width: 'GRUIX',
+    view_blocks: 'Blocs',
+    view_text: 'Text',
+    text_placeholder: 'Escriu el programa, per exemple: REPETIR 4 [ ENDAVANT 3 DRETA 90 ]',
+    error_position: 'Línia {line}, columna {column}',
+    parse_unknown_command: 'Ordre desconeguda: «{token}»',
+    parse_expected_command: 'S\'esperava una ordre i hi ha «{token}»',
+    parse_expected_number: 'Falta un número després de l\'ordre',
+    parse_expected_bracket: 'Falta «[» després del nombre de repeticions',
+    parse_unclosed_bracket: 'Aquest «[» no es tanca mai',
+    parse_unexpected_bracket: 'Sobra aquest «]»',
+    fix_errors_first: 'Corregeix els errors abans de tornar als blocs',
+    block: 'Bloc',
+    export_program: 'Desar el programa (JSON)',
+    import_program: 'Obrir un programa (JSON)',
+    share_link: 'Copiar l\'enllaç per compartir',
+    import_done: 'Programa carregat',
+    link_copied: 'Enllaç copiat!',
+    link_in_address_bar: 'L\'enllaç és a la barra d\'adreces',
+    import_invalid_json: 'El fitxer no és un JSON vàlid',
+    import_not_a_program: 'El fitxer no és un programa de RoboDibuix',
+    import_unsupported_version: 'Aquest programa és d\'una versió més nova ({token})',
+    import_invalid_block: 'bloc no vàlid',
+    import_unknown_type: 'ordre desconeguda «{token}»',
+    import_invalid_value: 'valor no vàlid «{token}»',
+    import_value_out_of_range: 'valor fora de límits «{token}»',
+    import_missing_children: 'al bucle li falten les ordres de dins',
+    import_invalid_link: 'L\'enllaç està trencat',
+    project: 'Projecte',
+    projects: 'Projectes',
+    new_project: 'Nou projecte',
+    close: 'Tancar',
+    open_project: 'Obrir el projecte',
+    student_name: 'Nom de l\'alumne (opcional)',
+    last_saved: 'Desat',
+    rename: 'Canviar el nom',
+    duplicate: 'Duplicar',
+    delete: 'Eliminar',
+    confirm_delete_project: 'Segur que vols eliminar «{name}»?',
+    copy: 'còpia',
+    shared_project: 'Programa compartit',
+    storage_full: 'No s\'ha pogut desar: el navegador no té més espai',
+    export_image: 'Exportar el dibuix',
+    export_with_grid: 'Amb la quadrícula',
+    export_with_robot: 'Amb el robot',
+    undo: 'Desfer',
+    redo: 'Refer',
+    move_hint: 'Arrossega per moure. ←/→: bloc anterior/següent, Supr: eliminar, Alt+←/→: moure, Alt+↓: dins del bucle, Alt+↑: fora del bucle',
+    drop_into_loop: 'Deixa-ho anar aquí per posar-ho dins del bucle',
+    drop_to_move_out: 'Deixa-ho anar aquí per treure-ho del bucle',
+    view_tree: 'Arbre',
+    breadcrumbs: 'Ubicació al programa',
+    add_here: 'Els blocs nous s\'afegiran aquí',
+    expand: 'Desplega',
+    collapse: 'Plega',
+    expand_all: 'Desplega-ho tot',
+    collapse_all: 'Plega-ho tot',
+    kw_define: 'DEFINEIX',
+    kw_call: 'CRIDA',
+    cmd_define: 'Defineix',
+    cmd_call: 'Crida',
+    procedure_base_name: 'procediment',
+    param_base_name: 'valor',
+    parse_expected_name: 'S\'esperava un nom (lletres, xifres i _, sense començar per xifra)',
+    import_invalid_name: 'Nom no vàlid',
+    error_duplicate_procedure: 'Hi ha dos procediments amb el mateix nom',
+    error_unknown_procedure: 'Aquest bloc crida un procediment que no existeix',
+    error_call_depth: 'Massa crides dins de crides. Potser un procediment es crida a si mateix sense parar?',
+    editing_procedure: 'Editant procediment',
+    add_param: 'Afegeix un paràmetre',
+    remove_param: 'Treu el paràmetre',
+    choose_procedure: 'Tria un procediment',
+    name_hint: 'Lletres, xifres i _, sense començar per xifra',
+    procedures: 'Procediments',
+    drop_into_procedure: 'Deixa-ho anar aquí per posar-ho dins del procediment',
+    kw_set: 'ASSIGNA',
+    cmd_set_variable: 'Assigna',
+    variable_base_name: 'costat',
+    counter: 'comptador',
+    expression_hint: 'Un nombre o una expressió, p. ex. costat * 2',
+    expr_unexpected: '«{token}» no s\'esperava aquí',
+    expr_incomplete: 'L\'expressió està incompleta',
+    expr_unclosed_parenthesis: 'Falta tancar un parèntesi',
+    error_undefined_variable: 'La variable «{token}» no té cap valor',
+    error_division_by_zero: 'No es pot dividir per zero',
+    import_invalid_expression: 'expressió no vàlida «{token}»',
+    kw_if: 'SI',
+    kw_else: 'SINO',
+    kw_edge_ahead: 'VORA',
+    kw_facing: 'MIRANT',
+    kw_painted_ahead: 'PINTAT',
+    kw_on_target: 'OBJECTIU',
+    cmd_if: 'Si',
+    cmd_else: 'Si no',
+    cond_edge_ahead: 'Vora o paret davant',
+    cond_facing: 'Mira cap a',
+    cond_painted_ahead: 'Pintat davant',
+    cond_on_target: 'Sobre una meta',
+    heading_north: 'Nord ↑',
+    heading_east: 'Est →',
+    heading_south: 'Sud ↓',
+    heading_west: 'Oest ←',
+    editing_branch: 'Editant Condició',
+    drop_into_branch: 'Deixa-ho anar aquí per posar-ho dins de la condició',
+    error_else_without_if: 'Un bloc SI NO ha d\'anar just després d\'un bloc SI',
+    parse_expected_condition: 'S\'esperava una condició (VORA, MIRANT, PINTAT o OBJECTIU)',
+    import_invalid_condition: 'condició desconeguda «{token}»',
+    challenges: 'Reptes',
+    challenge_level_1: 'Fàcil',
+    challenge_level_2: 'Mitjà',
+    challenge_level_3: 'Difícil',
+    exit_challenge: 'Sortir del repte',
+    challenge_passed: 'Repte superat!',
+    challenge_failed: 'Encara no',
+    challenge_block_count: '{count} blocs',
+    challenge_fewer_blocks: 'Ho pots fer amb només {count} blocs?',
+    challenge_missing_lines: 'Falten línies de la figura',
+    challenge_extra_lines: 'Has dibuixat línies que no són a la figura',
+    challenge_square_title: 'Quadrat',
+    challenge_square_description: 'Dibuixa un quadrat de 3 caselles de costat, començant cap amunt i girant a la dreta.',
+    challenge_square_hint: 'Un quadrat té 4 costats iguals i 4 girs de 90°. Prova el bloc Repetir.',
+    challenge_triangle_title: 'Triangle',
+    challenge_triangle_description: 'Dibuixa un triangle equilàter de 4 caselles de costat.',
+    challenge_triangle_hint: 'Per tancar un triangle el robot ha de girar 120° a cada cantonada.',
+    challenge_stairs_title: 'Escala',
+    challenge_stairs_description: 'Puja una escala de 4 graons d\'una casella cap amunt i cap a la dreta.',
+    challenge_stairs_hint: 'Cada graó és: amunt, dreta i tornar a mirar amunt.',
+    challenge_house_title: 'Casa',
+    challenge_house_description: 'Dibuixa una casa: un quadrat de 4 caselles amb una teulada triangular a sobre.',
+    challenge_house_hint: 'Fes primer el quadrat, puja a la cantonada de dalt i gira 30° abans de fer la teulada.',
+    challenge_star_title: 'Estrella',
+    challenge_star_description: 'Dibuixa una estrella de 5 puntes amb línies de 6 caselles.',
+    challenge_star_hint: 'A cada punta el robot gira 144°, i ho repeteix 5 vegades.',
+    new_challenge: 'Nou repte',
+    new_challenge_hint: 'El programa actual és la solució: el que dibuixa serà la figura del repte',
+    import_challenge: 'Obrir repte',
+    start_challenge: 'Començar el repte',
+    export_challenge: 'Desar el repte en un fitxer',
+    confirm_delete_challenge: 'Segur que vols esborrar el repte «{name}»?',
+    challenge_forbidden_blocks: 'En aquest repte no es poden fer servir: {blocks}',
+    challenge_too_many_blocks: 'Fes-ho amb {count} blocs com a màxim',
+    challenge_max_blocks: 'Màxim {count} blocs',
+    challenge_title: 'Títol',
+    challenge_level: 'Dificultat',
+    challenge_description: 'Enunciat',
+    challenge_hint: 'Pista',
+    start_x: 'Inici X',
+    start_y: 'Inici Y',
+    start_heading: 'Direcció inicial',
+    challenge_max_blocks_field: 'Màxim de blocs',
+    no_limit: 'Sense límit',
+    challenge_allowed_blocks: 'Blocs permesos',
+    challenge_needs_drawing: 'El programa actual no dibuixa res',
+    challenge_needs_title: 'Posa un títol al repte',
+    save_challenge: 'Crear el repte',
+    import_not_a_challenge: 'Aquest fitxer no és un repte de RoboDibuix',
+    import_invalid_challenge: 'El repte està malmès (camp «{token}»)',
+    board_settings: 'Tauler',
+    board_columns: 'Columnes',
+    board_rows: 'Files',
+    board_cell_size: 'Mida de casella (px)',
+    board_start_hint: 'Arrossega el cercle verd per moure l\'inici del robot i el punt per girar-lo.',
+    board_reset: 'Tauler per defecte',
+    drag_start: 'Arrossega per moure l\'inici',
+    turn_start: 'Arrossega per girar la direcció inicial',
+    import_invalid_board: 'El tauler no és vàlid (camp «{token}»)',
+    edge_mode: 'A la vora del tauler',
+    edge_error: 'Aturar amb un error',
+    edge_clamp: 'Quedar-se a la vora',
+    edge_wrap: 'Sortir per l\'altre costat',
+    error_off_board: 'El robot ha xocat amb la vora del tauler',
+    error_crash: 'El robot ha xocat amb una paret',
+    goal_reached: 'Meta assolida!',
+    maze_tools: 'Laberint (clica el tauler)',
+    tool_blocked: 'Casella bloquejada',
+    tool_wall: 'Paret',
+    tool_goal: 'Meta',
+    clear_maze: 'Esborra el laberint',
+    challenge_goal_only: 'Només cal arribar a una meta (sense dibuix)',
+    challenge_missed_goal: 'El robot ha d\'acabar sobre una meta',
+    challenge_solution_misses_goal: 'El programa actual no arriba a cap meta',
+    analysis: 'Anàlisi de la figura',
+    analysis_distance: 'Distància recorreguda',
+    analysis_turning: 'Gir total',
+    analysis_nothing_drawn: 'No s\'ha dibuixat res',
+    analysis_several_lines: 'El dibuix té {count} línies separades, no és una sola figura tancada',
+    analysis_closed: 'Figura tancada',
+    analysis_open: 'Línia oberta: acaba a {gap} de l\'inici',
+    analysis_turn_short: 'El robot ha girat {angle}° menys d\'una volta completa',
+    analysis_turn_over: 'El robot ha girat {angle}° més d\'una volta completa',
+    analysis_corners: 'Vèrtexs',
+    analysis_perimeter: 'Perímetre',
+    analysis_area: 'Àrea',
+    analysis_area_crossed: 'Cap (els costats es creuen)',
+    analysis_angles: 'Angles interiors',
+    unit_cells: 'caselles',
+    shape_triangle: 'triangle',
+    shape_equilateral_triangle: 'triangle equilàter',
+    shape_isosceles_triangle: 'triangle isòsceles',
+    shape_right_triangle: 'triangle rectangle',
+    shape_square: 'quadrat',
+    shape_rectangle: 'rectangle',
+    shape_rhombus: 'rombe',
+    shape_parallelogram: 'paral·lelogram',
+    shape_quadrilateral: 'quadrilàter',
+    shape_pentagon: 'pentàgon',
+    shape_hexagon: 'hexàgon',
+    shape_heptagon: 'heptàgon',
+    shape_octagon: 'octàgon',
+    shape_polygon: 'polígon de {count} costats',
+    shape_regular_pentagon: 'pentàgon regular',
+    shape_regular_hexagon: 'hexàgon regular',
+    shape_regular_heptagon: 'heptàgon regular',
+    shape_regular_octagon: 'octàgon regular',
+    shape_regular_polygon: 'polígon regular de {count} costats',
+    shape_star: 'estrella regular',
+    shape_crossed: 'polígon creuat',
+    unit_cm: 'cm',
+    unit_px: 'px',
+    distance_unit: 'Unitat de distància',
+    color_sky: 'blau cel',
+    color_red: 'vermell',
+    color_orange: 'taronja',
+    color_yellow: 'groc',
+    color_green: 'verd',
+    color_indigo: 'indi',
+    color_purple: 'lila',
+    color_black: 'negre',
+    announce_position: 'X {x}, Y {y}, rumb {heading}°',
+    board_label: 'Tauler de dibuix',
+    keyboard_shortcuts: 'Teclat',
+    keyboard_help: '↑/↓: endavant/enrere, ←/→: girar, Retorn: executar, Esc: aturar, Tab: anar als blocs, Ctrl+Z: desfer',
+    drive_mode: 'Mode conducció',
+    drive_hint: 'Mou el robot amb les fletxes o els botons. Cada moviment s\'afegeix al programa.',
+    drive_stop: 'Surt del mode conducció',
+    suggestions: 'Suggeriments per simplificar',
+    suggestions_none: 'Cap suggeriment: el programa ja és ben curt!',
+    suggest_repeat: 'Blocs {position}: els mateixos blocs es repeteixen {times} vegades seguides. Posa\'ls en un REPETIR',
+    suggest_merge: 'Blocs {position}: {count} moviments iguals seguits es poden ajuntar',
+    suggest_cancel: 'Blocs {position}: girs en sentits contraris que es compensen',
+    suggest_normalize: 'Bloc {position}: girar una volta sencera o més és com girar menys',
+    suggest_duplicate: 'Blocs {position}: el mateix bloc de llapis {count} vegades seguides, amb un n\'hi ha prou',
+    suggest_remove: 'treure (no canvia res)',
+    apply: 'Aplica',
+    value_out_of_range: 'Valor fora de límits: «{token}»',
+    project_not_opened: 'No es pot obrir el projecte «{name}» i es conserva sense canvis: {error}',
+    export_failed: 'No s\'ha pogut crear la imatge',
+    challenge_solution_fails: 'El programa actual s\'atura amb un error: {error}',
+    import_read_failed: 'No s\'ha pogut llegir el fitxer',
     scroll_hint: 'Desplaça per veure més'
   },
   es: {
@@ -43,6 +316,17 @@ export const translations = {
     subtitle: '¡Programa los movimientos y dibuja!',
     run: 'Ejecutar',
     stop: 'Detener',
+    pause: 'Pausa',
+    resume: 'Continuar',
+    step: 'Paso adelante',
+    step_back: 'Paso atrás',
+    loop_iteration: 'Vuelta del bucle',
+    speed: 'Velocidad',
+    speed_slow: 'Lenta',
+    speed_normal: 'Normal',
+    speed_fast: 'Rápida',
+    speed_very_fast: 'Muy rápida',
+    speed_instant: 'Instantánea',
     clear: 'Borrar',
     commands: 'Instrucciones',
     cmd_forward: 'Avanzar',
@@ -50,6 +334,10 @@ export const translations = {
     cmd_left: 'Izquierda',
     cmd_right: 'Derecha',
     cmd_repeat: 'Repetir',
+    cmd_pen_up: 'Subir lápiz',
+    cmd_pen_down: 'Bajar lápiz',
+    cmd_color: 'Color',
+    cmd_width: 'Grosor',
     sequence: 'Secuencia',
     loop_view: 'Dentro del bucle',
     main_view: 'Principal',
@@ -67,6 +355,264 @@ export const translations = {
     footer_auth: '© David Cordones',
     license_code: 'Licencia del código: AGPL v3',
     license_content: 'Contenido: CC BY-SA 4.0',
+    error_too_many_steps: 'El programa es demasiado largo. Lo hemos detenido.',
+    kw_forward: 'AVANZA',
+    kw_backward: 'RETROCEDE',
+    kw_left: 'IZQUIERDA',
+    kw_right: 'DERECHA',
+    kw_repeat: 'REPETIR',
+    kw_pen_up: 'SUBE',
+    kw_pen_down: 'BAJA',
+    kw_color: 'COLOR',
+    kw_width: 'GROSOR',
+    view_blocks: 'Bloques',
+    view_text: 'Texto',
+    text_placeholder: 'Escribe el programa, por ejemplo: REPETIR 4 [ AVANZA 3 DERECHA 90 ]',
+    error_position: 'Línea {line}, columna {column}',
+    parse_unknown_command: 'Orden desconocida: «{token}»',
+    parse_expected_command: 'Se esperaba una orden y hay «{token}»',
+    parse_expected_number: 'Falta un número después de la orden',
+    parse_expected_bracket: 'Falta «[» después del número de repeticiones',
+    parse_unclosed_bracket: 'Este «[» no se cierra nunca',
+    parse_unexpected_bracket: 'Sobra este «]»',
+    fix_errors_first: 'Corrige los errores antes de volver a los bloques',
+    block: 'Bloque',
+    export_program: 'Guardar el programa (JSON)',
+    import_program: 'Abrir un programa (JSON)',
+    share_link: 'Copiar el enlace para compartir',
+    import_done: 'Programa cargado',
+    link_copied: '¡Enlace copiado!',
+    link_in_address_bar: 'El enlace está en la barra de direcciones',
+    import_invalid_json: 'El archivo no es un JSON válido',
+    import_not_a_program: 'El archivo no es un programa de RoboDibuix',
+    import_unsupported_version: 'Este programa es de una versión más nueva ({token})',
+    import_invalid_block: 'bloque no válido',
+    import_unknown_type: 'orden desconocida «{token}»',
+    import_invalid_value: 'valor no válido «{token}»',
+    import_value_out_of_range: 'valor fuera de límites «{token}»',
+    import_missing_children: 'al bucle le faltan las órdenes de dentro',
+    import_invalid_link: 'El enlace está roto',
+    project: 'Proyecto',
+    projects: 'Proyectos',
+    new_project: 'Nuevo proyecto',
+    close: 'Cerrar',
+    open_project: 'Abrir el proyecto',
+    student_name: 'Nombre del alumno (opcional)',
+    last_saved: 'Guardado',
+    rename: 'Cambiar el nombre',
+    duplicate: 'Duplicar',
+    delete: 'Eliminar',
+    confirm_delete_project: '¿Seguro que quieres eliminar «{name}»?',
+    copy: 'copia',
+    shared_project: 'Programa compartido',
+    storage_full: 'No se ha podido guardar: el navegador no tiene más espacio',
+    export_image: 'Exportar el dibujo',
+    export_with_grid: 'Con la cuadrícula',
+    export_with_robot: 'Con el robot',
+    undo: 'Deshacer',
+    redo: 'Rehacer',
+    move_hint: 'Arrastra para mover. ←/→: bloque anterior/siguiente, Supr: eliminar, Alt+←/→: mover, Alt+↓: dentro del bucle, Alt+↑: fuera del bucle',
+    drop_into_loop: 'Suelta aquí para meterlo en el bucle',
+    drop_to_move_out: 'Suelta aquí para sacarlo del bucle',
+    view_tree: 'Árbol',
+    breadcrumbs: 'Ubicación en el programa',
+    add_here: 'Los bloques nuevos se añadirán aquí',
+    expand: 'Desplegar',
+    collapse: 'Plegar',
+    expand_all: 'Desplegar todo',
+    collapse_all: 'Plegar todo',
+    kw_define: 'DEFINE',
+    kw_call: 'LLAMA',
+    cmd_define: 'Define',
+    cmd_call: 'Llama',
+    procedure_base_name: 'procedimiento',
+    param_base_name: 'valor',
+    parse_expected_name: 'Se esperaba un nombre (letras, cifras y _, sin empezar por cifra)',
+    import_invalid_name: 'Nombre no válido',
+    error_duplicate_procedure: 'Hay dos procedimientos con el mismo nombre',
+    error_unknown_procedure: 'Este bloque llama a un procedimiento que no existe',
+    error_call_depth: 'Demasiadas llamadas dentro de llamadas. ¿Quizás un procedimiento se llama a sí mismo sin parar?',
+    editing_procedure: 'Editando procedimiento',
+    add_param: 'Añadir un parámetro',
+    remove_param: 'Quitar el parámetro',
+    choose_procedure: 'Elige un procedimiento',
+    name_hint: 'Letras, cifras y _, sin empezar por cifra',
+    procedures: 'Procedimientos',
+    drop_into_procedure: 'Suelta aquí para meterlo en el procedimiento',
+    kw_set: 'ASIGNA',
+    cmd_set_variable: 'Asigna',
+    variable_base_name: 'lado',
+    counter: 'contador',
+    expression_hint: 'Un número o una expresión, p. ej. lado * 2',
+    expr_unexpected: '«{token}» no se esperaba aquí',
+    expr_incomplete: 'La expresión está incompleta',
+    expr_unclosed_parenthesis: 'Falta cerrar un paréntesis',
+    error_undefined_variable: 'La variable «{token}» no tiene ningún valor',
+    error_division_by_zero: 'No se puede dividir por cero',
+    import_invalid_expression: 'expresión no válida «{token}»',
+    kw_if: 'SI',
+    kw_else: 'SINO',
+    kw_edge_ahead: 'BORDE',
+    kw_facing: 'MIRANDO',
+    kw_painted_ahead: 'PINTADO',
+    kw_on_target: 'OBJETIVO',
+    cmd_if: 'Si',
+    cmd_else: 'Si no',
+    cond_edge_ahead: 'Borde o pared delante',
+    cond_facing: 'Mira hacia',
+    cond_painted_ahead: 'Pintado delante',
+    cond_on_target: 'Sobre una meta',
+    heading_north: 'Norte ↑',
+    heading_east: 'Este →',
+    heading_south: 'Sur ↓',
+    heading_west: 'Oeste ←',
+    editing_branch: 'Editando Condición',
+    drop_into_branch: 'Suelta aquí para meterlo en la condición',
+    error_else_without_if: 'Un bloque SI NO debe ir justo después de un bloque SI',
+    parse_expected_condition: 'Se esperaba una condición (BORDE, MIRANDO, PINTADO u OBJETIVO)',
+    import_invalid_condition: 'condición desconocida «{token}»',
+    challenges: 'Retos',
+    challenge_level_1: 'Fácil',
+    challenge_level_2: 'Medio',
+    challenge_level_3: 'Difícil',
+    exit_challenge: 'Salir del reto',
+    challenge_passed: '¡Reto superado!',
+    challenge_failed: 'Todavía no',
+    challenge_block_count: '{count} bloques',
+    challenge_fewer_blocks: '¿Puedes hacerlo con solo {count} bloques?',
+    challenge_missing_lines: 'Faltan líneas de la figura',
+    challenge_extra_lines: 'Has dibujado líneas que no están en la figura',
+    challenge_square_title: 'Cuadrado',
+    challenge_square_description: 'Dibuja un cuadrado de 3 casillas de lado, empezando hacia arriba y girando a la derecha.',
+    challenge_square_hint: 'Un cuadrado tiene 4 lados iguales y 4 giros de 90°. Prueba el bloque Repetir.',
+    challenge_triangle_title: 'Triángulo',
+    challenge_triangle_description: 'Dibuja un triángulo equilátero de 4 casillas de lado.',
+    challenge_triangle_hint: 'Para cerrar un triángulo el robot tiene que girar 120° en cada esquina.',
+    challenge_stairs_title: 'Escalera',
+    challenge_stairs_description: 'Sube una escalera de 4 peldaños de una casilla hacia arriba y hacia la derecha.',
+    challenge_stairs_hint: 'Cada peldaño es: arriba, derecha y volver a mirar arriba.',
+    challenge_house_title: 'Casa',
+    challenge_house_description: 'Dibuja una casa: un cuadrado de 4 casillas con un tejado triangular encima.',
+    challenge_house_hint: 'Haz primero el cuadrado, sube a la esquina de arriba y gira 30° antes de hacer el tejado.',
+    challenge_star_title: 'Estrella',
+    challenge_star_description: 'Dibuja una estrella de 5 puntas con líneas de 6 casillas.',
+    challenge_star_hint: 'En cada punta el robot gira 144°, y lo repite 5 veces.',
+    new_challenge: 'Nuevo reto',
+    new_challenge_hint: 'El programa actual es la solución: lo que dibuja será la figura del reto',
+    import_challenge: 'Abrir reto',
+    start_challenge: 'Empezar el reto',
+    export_challenge: 'Guardar el reto en un archivo',
+    confirm_delete_challenge: '¿Seguro que quieres borrar el reto «{name}»?',
+    challenge_forbidden_blocks: 'En este reto no se pueden usar: {blocks}',
+    challenge_too_many_blocks: 'Hazlo con {count} bloques como máximo',
+    challenge_max_blocks: 'Máximo {count} bloques',
+    challenge_title: 'Título',
+    challenge_level: 'Dificultad',
+    challenge_description: 'Enunciado',
+    challenge_hint: 'Pista',
+    start_x: 'Inicio X',
+    start_y: 'Inicio Y',
+    start_heading: 'Dirección inicial',
+    challenge_max_blocks_field: 'Máximo de bloques',
+    no_limit: 'Sin límite',
+    challenge_allowed_blocks: 'Bloques permitidos',
+    challenge_needs_drawing: 'El programa actual no dibuja nada',
+    challenge_needs_title: 'Ponle un título al reto',
+    save_challenge: 'Crear el reto',
+    import_not_a_challenge: 'Este archivo no es un reto de RoboDibuix',
+    import_invalid_challenge: 'El reto está dañado (campo «{token}»)',
+    board_settings: 'Tablero',
+    board_columns: 'Columnas',
+    board_rows: 'Filas',
+    board_cell_size: 'Tamaño de casilla (px)',
+    board_start_hint: 'Arrastra el círculo verde para mover el inicio del robot y el punto para girarlo.',
+    board_reset: 'Tablero por defecto',
+    drag_start: 'Arrastra para mover el inicio',
+    turn_start: 'Arrastra para girar la dirección inicial',
+    import_invalid_board: 'El tablero no es válido (campo «{token}»)',
+    edge_mode: 'En el borde del tablero',
+    edge_error: 'Parar con un error',
+    edge_clamp: 'Quedarse en el borde',
+    edge_wrap: 'Salir por el otro lado',
+    error_off_board: 'El robot ha chocado con el borde del tablero',
+    error_crash: 'El robot ha chocado con una pared',
+    goal_reached: '¡Meta alcanzada!',
+    maze_tools: 'Laberinto (haz clic en el tablero)',
+    tool_blocked: 'Casilla bloqueada',
+    tool_wall: 'Pared',
+    tool_goal: 'Meta',
+    clear_maze: 'Borrar el laberinto',
+    challenge_goal_only: 'Solo hay que llegar a una meta (sin dibujo)',
+    challenge_missed_goal: 'El robot debe terminar sobre una meta',
+    challenge_solution_misses_goal: 'El programa actual no llega a ninguna meta',
+    analysis: 'Análisis de la figura',
+    analysis_distance: 'Distancia recorrida',
+    analysis_turning: 'Giro total',
+    analysis_nothing_drawn: 'No se ha dibujado nada',
+    analysis_several_lines: 'El dibujo tiene {count} líneas separadas, no es una sola figura cerrada',
+    analysis_closed: 'Figura cerrada',
+    analysis_open: 'Línea abierta: termina a {gap} del inicio',
+    analysis_turn_short: 'El robot ha girado {angle}° menos de una vuelta completa',
+    analysis_turn_over: 'El robot ha girado {angle}° más de una vuelta completa',
+    analysis_corners: 'Vértices',
+    analysis_perimeter: 'Perímetro',
+    analysis_area: 'Área',
+    analysis_area_crossed: 'Ninguna (los lados se cruzan)',
+    analysis_angles: 'Ángulos interiores',
+    unit_cells: 'casillas',
+    shape_triangle: 'triángulo',
+    shape_equilateral_triangle: 'triángulo equilátero',
+    shape_isosceles_triangle: 'triángulo isósceles',
+    shape_right_triangle: 'triángulo rectángulo',
+    shape_square: 'cuadrado',
+    shape_rectangle: 'rectángulo',
+    shape_rhombus: 'rombo',
+    shape_parallelogram: 'paralelogramo',
+    shape_quadrilateral: 'cuadrilátero',
+    shape_pentagon: 'pentágono',
+    shape_hexagon: 'hexágono',
+    shape_heptagon: 'heptágono',
+    shape_octagon: 'octógono',
+    shape_polygon: 'polígono de {count} lados',
+    shape_regular_pentagon: 'pentágono regular',
+    shape_regular_hexagon: 'hexágono regular',
+    shape_regular_heptagon: 'heptágono regular',
+    shape_regular_octagon: 'octógono regular',
+    shape_regular_polygon: 'polígono regular de {count} lados',
+    shape_star: 'estrella regular',
+    shape_crossed: 'polígono cruzado',
+    unit_cm: 'cm',
+    unit_px: 'px',
+    distance_unit: 'Unidad de distancia',
+    color_sky: 'azul cielo',
+    color_red: 'rojo',
+    color_orange: 'naranja',
+    color_yellow: 'amarillo',
+    color_green: 'verde',
+    color_indigo: 'índigo',
+    color_purple: 'lila',
+    color_black: 'negro',
+    announce_position: 'X {x}, Y {y}, rumbo {heading}°',
+    board_label: 'Tablero de dibujo',
+    keyboard_shortcuts: 'Teclado',
+    keyboard_help: '↑/↓: adelante/atrás, ←/→: girar, Intro: ejecutar, Esc: detener, Tab: ir a los bloques, Ctrl+Z: deshacer',
+    drive_mode: 'Modo conducción',
+    drive_hint: 'Mueve el robot con las flechas o los botones. Cada movimiento se añade al programa.',
+    drive_stop: 'Salir del modo conducción',
+    suggestions: 'Sugerencias para simplificar',
+    suggestions_none: 'Ninguna sugerencia: ¡el programa ya es bien corto!',
+    suggest_repeat: 'Bloques {position}: los mismos bloques se repiten {times} veces seguidas. Ponlos en un REPETIR',
+    suggest_merge: 'Bloques {position}: {count} movimientos iguales seguidos se pueden juntar',
+    suggest_cancel: 'Bloques {position}: giros en sentidos contrarios que se compensan',
+    suggest_normalize: 'Bloque {position}: girar una vuelta entera o más es como girar menos',
+    suggest_duplicate: 'Bloques {position}: el mismo bloque de lápiz {count} veces seguidas, con uno basta',
+    suggest_remove: 'quitar (no cambia nada)',
+    apply: 'Aplicar',
+    value_out_of_range: 'Valor fuera de límites: «{token}»',
+    project_not_opened: 'No se puede abrir el proyecto «{name}» y se conserva sin cambios: {error}',
+    export_failed: 'No se ha podido crear la imagen',
+    challenge_solution_fails: 'El programa actual se detiene con un error: {error}',
+    import_read_failed: 'No se ha podido leer el archivo',
     scroll_hint: 'Desliza para ver más'
   },
   gl: {
@@ -74,6 +620,17 @@ export const translations = {
     subtitle: 'Programa os movementos e debuxa!',
     run: 'Executar',
     stop: 'Deter',
+    pause: 'Pausa',
+    resume: 'Continuar',
+    step: 'Paso adiante',
+    step_back: 'Paso atrás',
+    loop_iteration: 'Volta do bucle',
+    speed: 'Velocidade',
+    speed_slow: 'Lenta',
+    speed_normal: 'Normal',
+    speed_fast: 'Rápida',
+    speed_very_fast: 'Moi rápida',
+    speed_instant: 'Instantánea',
     clear: 'Borrar',
     commands: 'Ordes',
     cmd_forward: 'Avanzar',
@@ -81,6 +638,10 @@ export const translations = {
     cmd_left: 'Esquerda',
     cmd_right: 'Dereita',
     cmd_repeat: 'Repetir',
+    cmd_pen_up: 'Subir lapis',
+    cmd_pen_down: 'Baixar lapis',
+    cmd_color: 'Cor',
+    cmd_width: 'Grosor',
     sequence: 'Secuencia',
     loop_view: 'Dentro do bucle',
     main_view: 'Principal',
@@ -98,6 +659,264 @@ export const translations = {
     footer_auth: '© David Cordones',
     license_code: 'Licenza do código: AGPL v3',
     license_content: 'Contido: CC BY-SA 4.0',
+    error_too_many_steps: 'O programa é demasiado longo. Detivémolo.',
+    kw_forward: 'AVANZA',
+    kw_backward: 'RETROCEDE',
+    kw_left: 'ESQUERDA',
+    kw_right: 'DEREITA',
+    kw_repeat: 'REPETIR',
+    kw_pen_up: 'SUBE',
+    kw_pen_down: 'BAIXA',
+    kw_color: 'COR',
+    kw_width: 'GROSOR',
+    view_blocks: 'Bloques',
+    view_text: 'Texto',
+    text_placeholder: 'Escribe o programa, por exemplo: REPETIR 4 [ AVANZA 3 DEREITA 90 ]',
+    error_position: 'Liña {line}, columna {column}',
+    parse_unknown_command: 'Orde descoñecida: «{token}»',
+    parse_expected_command: 'Agardábase unha orde e hai «{token}»',
+    parse_expected_number: 'Falta un número despois da orde',
+    parse_expected_bracket: 'Falta «[» despois do número de repeticións',
+    parse_unclosed_bracket: 'Este «[» non se pecha nunca',
+    parse_unexpected_bracket: 'Sobra este «]»',
+    fix_errors_first: 'Corrixe os erros antes de volver aos bloques',
+    block: 'Bloque',
+    export_program: 'Gardar o programa (JSON)',
+    import_program: 'Abrir un programa (JSON)',
+    share_link: 'Copiar a ligazón para compartir',
+    import_done: 'Programa cargado',
+    link_copied: 'Ligazón copiada!',
+    link_in_address_bar: 'A ligazón está na barra de enderezos',
+    import_invalid_json: 'O ficheiro non é un JSON válido',
+    import_not_a_program: 'O ficheiro non é un programa de RoboDibuix',
+    import_unsupported_version: 'Este programa é dunha versión máis nova ({token})',
+    import_invalid_block: 'bloque non válido',
+    import_unknown_type: 'orde descoñecida «{token}»',
+    import_invalid_value: 'valor non válido «{token}»',
+    import_value_out_of_range: 'valor fóra de límites «{token}»',
+    import_missing_children: 'ao bucle fáltanlle as ordes de dentro',
+    import_invalid_link: 'A ligazón está rota',
+    project: 'Proxecto',
+    projects: 'Proxectos',
+    new_project: 'Novo proxecto',
+    close: 'Pechar',
+    open_project: 'Abrir o proxecto',
+    student_name: 'Nome do alumno (opcional)',
+    last_saved: 'Gardado',
+    rename: 'Cambiar o nome',
+    duplicate: 'Duplicar',
+    delete: 'Eliminar',
+    confirm_delete_project: 'Seguro que queres eliminar «{name}»?',
+    copy: 'copia',
+    shared_project: 'Programa compartido',
+    storage_full: 'Non se puido gardar: o navegador non ten máis espazo',
+    export_image: 'Exportar o debuxo',
+    export_with_grid: 'Coa cuadrícula',
+    export_with_robot: 'Co robot',
+    undo: 'Desfacer',
+    redo: 'Refacer',
+    move_hint: 'Arrastra para mover. ←/→: bloque anterior/seguinte, Supr: eliminar, Alt+←/→: mover, Alt+↓: dentro do bucle, Alt+↑: fóra do bucle',
+    drop_into_loop: 'Solta aquí para metelo no bucle',
+    drop_to_move_out: 'Solta aquí para sacalo do bucle',
+    view_tree: 'Árbore',
+    breadcrumbs: 'Localización no programa',
+    add_here: 'Os bloques novos engadiranse aquí',
+    expand: 'Despregar',
+    collapse: 'Pregar',
+    expand_all: 'Despregar todo',
+    collapse_all: 'Pregar todo',
+    kw_define: 'DEFINE',
+    kw_call: 'CHAMA',
+    cmd_define: 'Define',
+    cmd_call: 'Chama',
+    procedure_base_name: 'procedemento',
+    param_base_name: 'valor',
+    parse_expected_name: 'Agardábase un nome (letras, cifras e _, sen comezar por cifra)',
+    import_invalid_name: 'Nome non válido',
+    error_duplicate_procedure: 'Hai dous procedementos co mesmo nome',
+    error_unknown_procedure: 'Este bloque chama a un procedemento que non existe',
+    error_call_depth: 'Demasiadas chamadas dentro de chamadas. Quizais un procedemento chámase a si mesmo sen parar?',
+    editing_procedure: 'Editando procedemento',
+    add_param: 'Engadir un parámetro',
+    remove_param: 'Quitar o parámetro',
+    choose_procedure: 'Escolle un procedemento',
+    name_hint: 'Letras, cifras e _, sen comezar por cifra',
+    procedures: 'Procedementos',
+    drop_into_procedure: 'Solta aquí para metelo no procedemento',
+    kw_set: 'ASIGNA',
+    cmd_set_variable: 'Asigna',
+    variable_base_name: 'lado',
+    counter: 'contador',
+    expression_hint: 'Un número ou unha expresión, p. ex. lado * 2',
+    expr_unexpected: '«{token}» non se agardaba aquí',
+    expr_incomplete: 'A expresión está incompleta',
+    expr_unclosed_parenthesis: 'Falta pechar unha paréntese',
+    error_undefined_variable: 'A variable «{token}» non ten ningún valor',
+    error_division_by_zero: 'Non se pode dividir por cero',
+    import_invalid_expression: 'expresión non válida «{token}»',
+    kw_if: 'SE',
+    kw_else: 'SENON',
+    kw_edge_ahead: 'BORDO',
+    kw_facing: 'MIRANDO',
+    kw_painted_ahead: 'PINTADO',
+    kw_on_target: 'OBXECTIVO',
+    cmd_if: 'Se',
+    cmd_else: 'Se non',
+    cond_edge_ahead: 'Bordo ou parede diante',
+    cond_facing: 'Mira cara a',
+    cond_painted_ahead: 'Pintado diante',
+    cond_on_target: 'Sobre unha meta',
+    heading_north: 'Norte ↑',
+    heading_east: 'Leste →',
+    heading_south: 'Sur ↓',
+    heading_west: 'Oeste ←',
+    editing_branch: 'Editando Condición',
+    drop_into_branch: 'Solta aquí para metelo na condición',
+    error_else_without_if: 'Un bloque SE NON debe ir xusto despois dun bloque SE',
+    parse_expected_condition: 'Agardábase unha condición (BORDO, MIRANDO, PINTADO ou OBXECTIVO)',
+    import_invalid_condition: 'condición descoñecida «{token}»',
+    challenges: 'Retos',
+    challenge_level_1: 'Doado',
+    challenge_level_2: 'Medio',
+    challenge_level_3: 'Difícil',
+    exit_challenge: 'Saír do reto',
+    challenge_passed: 'Reto superado!',
+    challenge_failed: 'Aínda non',
+    challenge_block_count: '{count} bloques',
+    challenge_fewer_blocks: 'Podes facelo con só {count} bloques?',
+    challenge_missing_lines: 'Faltan liñas da figura',
+    challenge_extra_lines: 'Debuxaches liñas que non están na figura',
+    challenge_square_title: 'Cadrado',
+    challenge_square_description: 'Debuxa un cadrado de 3 casas de lado, comezando cara arriba e xirando á dereita.',
+    challenge_square_hint: 'Un cadrado ten 4 lados iguais e 4 xiros de 90°. Proba o bloque Repetir.',
+    challenge_triangle_title: 'Triángulo',
+    challenge_triangle_description: 'Debuxa un triángulo equilátero de 4 casas de lado.',
+    challenge_triangle_hint: 'Para pechar un triángulo o robot ten que xirar 120° en cada esquina.',
+    challenge_stairs_title: 'Escaleira',
+    challenge_stairs_description: 'Sube unha escaleira de 4 chanzos dunha casa cara arriba e cara á dereita.',
+    challenge_stairs_hint: 'Cada chanzo é: arriba, dereita e volver mirar arriba.',
+    challenge_house_title: 'Casa',
+    challenge_house_description: 'Debuxa unha casa: un cadrado de 4 casas cun tellado triangular enriba.',
+    challenge_house_hint: 'Fai primeiro o cadrado, sube á esquina de arriba e xira 30° antes de facer o tellado.',
+    challenge_star_title: 'Estrela',
+    challenge_star_description: 'Debuxa unha estrela de 5 puntas con liñas de 6 casas.',
+    challenge_star_hint: 'En cada punta o robot xira 144°, e repíteo 5 veces.',
+    new_challenge: 'Novo reto',
+    new_challenge_hint: 'O programa actual é a solución: o que debuxa será a figura do reto',
+    import_challenge: 'Abrir reto',
+    start_challenge: 'Comezar o reto',
+    export_challenge: 'Gardar o reto nun ficheiro',
+    confirm_delete_challenge: 'Seguro que queres borrar o reto «{name}»?',
+    challenge_forbidden_blocks: 'Neste reto non se poden usar: {blocks}',
+    challenge_too_many_blocks: 'Faino con {count} bloques como máximo',
+    challenge_max_blocks: 'Máximo {count} bloques',
+    challenge_title: 'Título',
+    challenge_level: 'Dificultade',
+    challenge_description: 'Enunciado',
+    challenge_hint: 'Pista',
+    start_x: 'Inicio X',
+    start_y: 'Inicio Y',
+    start_heading: 'Dirección inicial',
+    challenge_max_blocks_field: 'Máximo de bloques',
+    no_limit: 'Sen límite',
+    challenge_allowed_blocks: 'Bloques permitidos',
+    challenge_needs_drawing: 'O programa actual non debuxa nada',
+    challenge_needs_title: 'Ponlle un título ao reto',
+    save_challenge: 'Crear o reto',
+    import_not_a_challenge: 'Este ficheiro non é un reto de RoboDibuix',
+    import_invalid_challenge: 'O reto está danado (campo «{token}»)',
+    board_settings: 'Taboleiro',
+    board_columns: 'Columnas',
+    board_rows: 'Filas',
+    board_cell_size: 'Tamaño de casa (px)',
+    board_start_hint: 'Arrastra o círculo verde para mover o inicio do robot e o punto para xiralo.',
+    board_reset: 'Taboleiro por defecto',
+    drag_start: 'Arrastra para mover o inicio',
+    turn_start: 'Arrastra para xirar a dirección inicial',
+    import_invalid_board: 'O taboleiro non é válido (campo «{token}»)',
+    edge_mode: 'No bordo do taboleiro',
+    edge_error: 'Parar cun erro',
+    edge_clamp: 'Quedar no bordo',
+    edge_wrap: 'Saír polo outro lado',
+    error_off_board: 'O robot chocou co bordo do taboleiro',
+    error_crash: 'O robot chocou cunha parede',
+    goal_reached: 'Meta acadada!',
+    maze_tools: 'Labirinto (fai clic no taboleiro)',
+    tool_blocked: 'Cela bloqueada',
+    tool_wall: 'Parede',
+    tool_goal: 'Meta',
+    clear_maze: 'Borrar o labirinto',
+    challenge_goal_only: 'Só hai que chegar a unha meta (sen debuxo)',
+    challenge_missed_goal: 'O robot debe rematar sobre unha meta',
+    challenge_solution_misses_goal: 'O programa actual non chega a ningunha meta',
+    analysis: 'Análise da figura',
+    analysis_distance: 'Distancia percorrida',
+    analysis_turning: 'Xiro total',
+    analysis_nothing_drawn: 'Non se debuxou nada',
+    analysis_several_lines: 'O debuxo ten {count} liñas separadas, non é unha soa figura pechada',
+    analysis_closed: 'Figura pechada',
+    analysis_open: 'Liña aberta: remata a {gap} do inicio',
+    analysis_turn_short: 'O robot xirou {angle}° menos dunha volta completa',
+    analysis_turn_over: 'O robot xirou {angle}° máis dunha volta completa',
+    analysis_corners: 'Vértices',
+    analysis_perimeter: 'Perímetro',
+    analysis_area: 'Área',
+    analysis_area_crossed: 'Ningunha (os lados crúzanse)',
+    analysis_angles: 'Ángulos interiores',
+    unit_cells: 'celas',
+    shape_triangle: 'triángulo',
+    shape_equilateral_triangle: 'triángulo equilátero',
+    shape_isosceles_triangle: 'triángulo isóscele',
+    shape_right_triangle: 'triángulo rectángulo',
+    shape_square: 'cadrado',
+    shape_rectangle: 'rectángulo',
+    shape_rhombus: 'rombo',
+    shape_parallelogram: 'paralelogramo',
+    shape_quadrilateral: 'cuadrilátero',
+    shape_pentagon: 'pentágono',
+    shape_hexagon: 'hexágono',
+    shape_heptagon: 'heptágono',
+    shape_octagon: 'octógono',
+    shape_polygon: 'polígono de {count} lados',
+    shape_regular_pentagon: 'pentágono regular',
+    shape_regular_hexagon: 'hexágono regular',
+    shape_regular_heptagon: 'heptágono regular',
+    shape_regular_octagon: 'octógono regular',
+    shape_regular_polygon: 'polígono regular de {count} lados',
+    shape_star: 'estrela regular',
+    shape_crossed: 'polígono cruzado',
+    unit_cm: 'cm',
+    unit_px: 'px',
+    distance_unit: 'Unidade de distancia',
+    color_sky: 'azul ceo',
+    color_red: 'vermello',
+    color_orange: 'laranxa',
+    color_yellow: 'amarelo',
+    color_green: 'verde',
+    color_indigo: 'índigo',
+    color_purple: 'lila',
+    color_black: 'negro',
+    announce_position: 'X {x}, Y {y}, rumbo {heading}°',
+    board_label: 'Taboleiro de debuxo',
+    keyboard_shortcuts: 'Teclado',
+    keyboard_help: '↑/↓: adiante/atrás, ←/→: virar, Intro: executar, Esc: deter, Tab: ir aos bloques, Ctrl+Z: desfacer',
+    drive_mode: 'Modo condución',
+    drive_hint: 'Move o robot coas frechas ou os botóns. Cada movemento engádese ao programa.',
+    drive_stop: 'Saír do modo condución',
+    suggestions: 'Suxestións para simplificar',
+    suggestions_none: 'Ningunha suxestión: o programa xa é ben curto!',
+    suggest_repeat: 'Bloques {position}: os mesmos bloques repítense {times} veces seguidas. Ponos nun REPETIR',
+    suggest_merge: 'Bloques {position}: {count} movementos iguais seguidos pódense xuntar',
+    suggest_cancel: 'Bloques {position}: xiros en sentidos contrarios que se compensan',
+    suggest_normalize: 'Bloque {position}: xirar unha volta enteira ou máis é como xirar menos',
+    suggest_duplicate: 'Bloques {position}: o mesmo bloque de lapis {count} veces seguidas, abonda con un',
+    suggest_remove: 'quitar (non cambia nada)',
+    apply: 'Aplicar',
+    value_out_of_range: 'Valor fóra de límites: «{token}»',
+    project_not_opened: 'Non se pode abrir o proxecto «{name}» e consérvase sen cambios: {error}',
+    export_failed: 'Non se puido crear a imaxe',
+    challenge_solution_fails: 'O programa actual detense cun erro: {error}',
+    import_read_failed: 'Non se puido ler o ficheiro',
     scroll_hint: 'Desprázate para ver máis'
   },
   eu: {
@@ -105,6 +924,17 @@ export const translations = {
     subtitle: 'Programatu mugimenduak eta marraztu!',
     run: 'Exekutatu',
     stop: 'Gelditu',
+    pause: 'Pausatu',
+    resume: 'Jarraitu',
+    step: 'Urrats bat aurrera',
+    step_back: 'Urrats bat atzera',
+    loop_iteration: 'Begiztaren itzulia',
+    speed: 'Abiadura',
+    speed_slow: 'Motela',
+    speed_normal: 'Normala',
+    speed_fast: 'Azkarra',
+    speed_very_fast: 'Oso azkarra',
+    speed_instant: 'Berehalakoa',
     clear: 'Ezabatu',
     commands: 'Aginduak',
     cmd_forward: 'Aurrera',
@@ -112,6 +942,10 @@ export const translations = {
     cmd_left: 'Ezkerra',
     cmd_right: 'Eskuina',
     cmd_repeat: 'Errepikatu',
+    cmd_pen_up: 'Arkatza jaso',
+    cmd_pen_down: 'Arkatza jaitsi',
+    cmd_color: 'Kolorea',
+    cmd_width: 'Lodiera',
     sequence: 'Sekuentzia',
     loop_view: 'Begizta barruan',
     main_view: 'Nagusia',
@@ -129,6 +963,264 @@ export const translations = {
     footer_auth: '© David Cordones',
     license_code: 'Kodearen lizentzia: AGPL v3',
     license_content: 'Edukia: CC BY-SA 4.0',
+    error_too_many_steps: 'Programa luzeegia da. Gelditu egin dugu.',
+    kw_forward: 'AURRERA',
+    kw_backward: 'ATZERA',
+    kw_left: 'EZKERRA',
+    kw_right: 'ESKUINA',
+    kw_repeat: 'ERREPIKATU',
+    kw_pen_up: 'JASO',
+    kw_pen_down: 'JAITSI',
+    kw_color: 'KOLOREA',
+    kw_width: 'LODIERA',
+    view_blocks: 'Blokeak',
+    view_text: 'Testua',
+    text_placeholder: 'Idatzi programa, adibidez: ERREPIKATU 4 [ AURRERA 3 ESKUINA 90 ]',
+    error_position: '{line}. lerroa, {column}. zutabea',
+    parse_unknown_command: 'Agindu ezezaguna: «{token}»',
+    parse_expected_command: 'Agindu bat espero zen, baina «{token}» dago',
+    parse_expected_number: 'Zenbaki bat falta da aginduaren ondoren',
+    parse_expected_bracket: '«[» falta da errepikapen kopuruaren ondoren',
+    parse_unclosed_bracket: '«[» hau ez da inoiz ixten',
+    parse_unexpected_bracket: '«]» hau soberan dago',
+    fix_errors_first: 'Zuzendu erroreak blokeetara itzuli aurretik',
+    block: 'Blokea',
+    export_program: 'Gorde programa (JSON)',
+    import_program: 'Ireki programa bat (JSON)',
+    share_link: 'Kopiatu partekatzeko esteka',
+    import_done: 'Programa kargatuta',
+    link_copied: 'Esteka kopiatuta!',
+    link_in_address_bar: 'Esteka helbide-barran dago',
+    import_invalid_json: 'Fitxategia ez da JSON baliozkoa',
+    import_not_a_program: 'Fitxategia ez da RoboDibuix programa bat',
+    import_unsupported_version: 'Programa hau bertsio berriago batekoa da ({token})',
+    import_invalid_block: 'bloke baliogabea',
+    import_unknown_type: 'agindu ezezaguna «{token}»',
+    import_invalid_value: 'balio baliogabea «{token}»',
+    import_value_out_of_range: 'balioa mugetatik kanpo «{token}»',
+    import_missing_children: 'begiztari barruko aginduak falta zaizkio',
+    import_invalid_link: 'Esteka hautsita dago',
+    project: 'Proiektua',
+    projects: 'Proiektuak',
+    new_project: 'Proiektu berria',
+    close: 'Itxi',
+    open_project: 'Ireki proiektua',
+    student_name: 'Ikaslearen izena (aukerakoa)',
+    last_saved: 'Gordeta',
+    rename: 'Aldatu izena',
+    duplicate: 'Bikoiztu',
+    delete: 'Ezabatu',
+    confirm_delete_project: 'Ziur «{name}» ezabatu nahi duzula?',
+    copy: 'kopia',
+    shared_project: 'Partekatutako programa',
+    storage_full: 'Ezin izan da gorde: nabigatzaileak ez du leku gehiago',
+    export_image: 'Esportatu marrazkia',
+    export_with_grid: 'Saretarekin',
+    export_with_robot: 'Robotarekin',
+    undo: 'Desegin',
+    redo: 'Berregin',
+    move_hint: 'Arrastatu mugitzeko. ←/→: aurreko/hurrengo blokea, Supr: ezabatu, Alt+←/→: mugitu, Alt+↓: begiztaren barruan, Alt+↑: begiztatik kanpo',
+    drop_into_loop: 'Askatu hemen begiztan sartzeko',
+    drop_to_move_out: 'Askatu hemen begiztatik ateratzeko',
+    view_tree: 'Zuhaitza',
+    breadcrumbs: 'Kokapena programan',
+    add_here: 'Bloke berriak hemen gehituko dira',
+    expand: 'Zabaldu',
+    collapse: 'Tolestu',
+    expand_all: 'Zabaldu dena',
+    collapse_all: 'Tolestu dena',
+    kw_define: 'DEFINITU',
+    kw_call: 'DEITU',
+    cmd_define: 'Definitu',
+    cmd_call: 'Deitu',
+    procedure_base_name: 'prozedura',
+    param_base_name: 'balioa',
+    parse_expected_name: 'Izen bat espero zen (hizkiak, zifrak eta _, zifraz hasi gabe)',
+    import_invalid_name: 'Izen baliogabea',
+    error_duplicate_procedure: 'Bi prozedurak izen bera dute',
+    error_unknown_procedure: 'Bloke honek existitzen ez den prozedura bati deitzen dio',
+    error_call_depth: 'Dei gehiegi deien barruan. Agian prozedura batek bere buruari deitzen dio etengabe?',
+    editing_procedure: 'Prozedura editatzen',
+    add_param: 'Gehitu parametro bat',
+    remove_param: 'Kendu parametroa',
+    choose_procedure: 'Aukeratu prozedura bat',
+    name_hint: 'Hizkiak, zifrak eta _, zifraz hasi gabe',
+    procedures: 'Prozedurak',
+    drop_into_procedure: 'Askatu hemen prozeduran sartzeko',
+    kw_set: 'ESLEITU',
+    cmd_set_variable: 'Esleitu',
+    variable_base_name: 'aldea',
+    counter: 'kontagailua',
+    expression_hint: 'Zenbaki bat edo adierazpen bat, adib. aldea * 2',
+    expr_unexpected: '«{token}» ez zen hemen espero',
+    expr_incomplete: 'Adierazpena osatu gabe dago',
+    expr_unclosed_parenthesis: 'Parentesi bat ixteke dago',
+    error_undefined_variable: '«{token}» aldagaiak ez du baliorik',
+    error_division_by_zero: 'Ezin da zeroz zatitu',
+    import_invalid_expression: 'adierazpen baliogabea «{token}»',
+    kw_if: 'BALDIN',
+    kw_else: 'BESTELA',
+    kw_edge_ahead: 'ERTZA',
+    kw_facing: 'BEGIRA',
+    kw_painted_ahead: 'MARGOTUA',
+    kw_on_target: 'HELBURUA',
+    cmd_if: 'Baldin',
+    cmd_else: 'Bestela',
+    cond_edge_ahead: 'Ertza edo horma aurrean',
+    cond_facing: 'Norantz begira',
+    cond_painted_ahead: 'Margotua aurrean',
+    cond_on_target: 'Helmuga baten gainean',
+    heading_north: 'Iparra ↑',
+    heading_east: 'Ekialdea →',
+    heading_south: 'Hegoa ↓',
+    heading_west: 'Mendebaldea ←',
+    editing_branch: 'Baldintza editatzen',
+    drop_into_branch: 'Askatu hemen baldintzan sartzeko',
+    error_else_without_if: 'BESTELA bloke batek BALDIN bloke baten ondoren joan behar du',
+    parse_expected_condition: 'Baldintza bat espero zen (ERTZA, BEGIRA, MARGOTUA edo HELBURUA)',
+    import_invalid_condition: 'baldintza ezezaguna «{token}»',
+    challenges: 'Erronkak',
+    challenge_level_1: 'Erraza',
+    challenge_level_2: 'Ertaina',
+    challenge_level_3: 'Zaila',
+    exit_challenge: 'Irten erronkatik',
+    challenge_passed: 'Erronka gaindituta!',
+    challenge_failed: 'Oraindik ez',
+    challenge_block_count: '{count} bloke',
+    challenge_fewer_blocks: '{count} blokerekin bakarrik egin dezakezu?',
+    challenge_missing_lines: 'Irudiaren marrak falta dira',
+    challenge_extra_lines: 'Irudian ez dauden marrak marraztu dituzu',
+    challenge_square_title: 'Karratua',
+    challenge_square_description: 'Marraztu 3 laukiko aldeko karratu bat, gorantz hasita eta eskuinera biratuz.',
+    challenge_square_hint: 'Karratu batek 4 alde berdin eta 90°-ko 4 bira ditu. Probatu Errepikatu blokea.',
+    challenge_triangle_title: 'Triangelua',
+    challenge_triangle_description: 'Marraztu 4 laukiko aldeko triangelu aldeberdin bat.',
+    challenge_triangle_hint: 'Triangelua ixteko robotak 120° biratu behar du izkina bakoitzean.',
+    challenge_stairs_title: 'Eskailera',
+    challenge_stairs_description: 'Igo lauki bateko 4 mailako eskailera bat gorantz eta eskuinera.',
+    challenge_stairs_hint: 'Maila bakoitza: gora, eskuinera eta berriro gora begiratu.',
+    challenge_house_title: 'Etxea',
+    challenge_house_description: 'Marraztu etxe bat: 4 laukiko karratu bat gainean teilatu triangeluar batekin.',
+    challenge_house_hint: 'Egin lehenik karratua, igo goiko izkinara eta biratu 30° teilatua egin aurretik.',
+    challenge_star_title: 'Izarra',
+    challenge_star_description: 'Marraztu 5 puntako izar bat 6 laukiko marrekin.',
+    challenge_star_hint: 'Punta bakoitzean robotak 144° biratzen du, eta 5 aldiz errepikatzen du.',
+    new_challenge: 'Erronka berria',
+    new_challenge_hint: 'Uneko programa da soluzioa: marrazten duena izango da erronkaren irudia',
+    import_challenge: 'Ireki erronka',
+    start_challenge: 'Hasi erronka',
+    export_challenge: 'Gorde erronka fitxategi batean',
+    confirm_delete_challenge: 'Ziur «{name}» erronka ezabatu nahi duzula?',
+    challenge_forbidden_blocks: 'Erronka honetan ezin dira erabili: {blocks}',
+    challenge_too_many_blocks: 'Egin ezazu gehienez {count} blokerekin',
+    challenge_max_blocks: 'Gehienez {count} bloke',
+    challenge_title: 'Izenburua',
+    challenge_level: 'Zailtasuna',
+    challenge_description: 'Enuntziatua',
+    challenge_hint: 'Pista',
+    start_x: 'Hasiera X',
+    start_y: 'Hasiera Y',
+    start_heading: 'Hasierako norabidea',
+    challenge_max_blocks_field: 'Gehienezko blokeak',
+    no_limit: 'Mugarik gabe',
+    challenge_allowed_blocks: 'Baimendutako blokeak',
+    challenge_needs_drawing: 'Uneko programak ez du ezer marrazten',
+    challenge_needs_title: 'Jarri izenburu bat erronkari',
+    save_challenge: 'Sortu erronka',
+    import_not_a_challenge: 'Fitxategi hau ez da RoboDibuix erronka bat',
+    import_invalid_challenge: 'Erronka hondatuta dago («{token}» eremua)',
+    board_settings: 'Taula',
+    board_columns: 'Zutabeak',
+    board_rows: 'Errenkadak',
+    board_cell_size: 'Gelaxkaren tamaina (px)',
+    board_start_hint: 'Arrastatu zirkulu berdea robotaren hasiera mugitzeko, eta puntua biratzeko.',
+    board_reset: 'Taula lehenetsia',
+    drag_start: 'Arrastatu hasiera mugitzeko',
+    turn_start: 'Arrastatu hasierako norabidea biratzeko',
+    import_invalid_board: 'Taula ez da baliozkoa («{token}» eremua)',
+    edge_mode: 'Taularen ertzean',
+    edge_error: 'Errore batekin gelditu',
+    edge_clamp: 'Ertzean gelditu',
+    edge_wrap: 'Beste aldetik atera',
+    error_off_board: 'Robotak talka egin du taularen ertzarekin',
+    error_crash: 'Robotak horma bat jo du',
+    goal_reached: 'Helmugara iritsi da!',
+    maze_tools: 'Labirintoa (egin klik taulan)',
+    tool_blocked: 'Gelaxka blokeatua',
+    tool_wall: 'Horma',
+    tool_goal: 'Helmuga',
+    clear_maze: 'Garbitu labirintoa',
+    challenge_goal_only: 'Helmuga batera iristea nahikoa da (marrazkirik gabe)',
+    challenge_missed_goal: 'Robotak helmuga batean amaitu behar du',
+    challenge_solution_misses_goal: 'Uneko programa ez da helmuga batera iristen',
+    analysis: 'Irudiaren analisia',
+    analysis_distance: 'Egindako distantzia',
+    analysis_turning: 'Biraketa osoa',
+    analysis_nothing_drawn: 'Ez da ezer marraztu',
+    analysis_several_lines: 'Marrazkiak {count} marra bereizi ditu, ez da irudi itxi bakarra',
+    analysis_closed: 'Irudi itxia',
+    analysis_open: 'Marra irekia: amaiera hasieratik {gap} dago',
+    analysis_turn_short: 'Robotak bira oso bat baino {angle}° gutxiago biratu du',
+    analysis_turn_over: 'Robotak bira oso bat baino {angle}° gehiago biratu du',
+    analysis_corners: 'Erpinak',
+    analysis_perimeter: 'Perimetroa',
+    analysis_area: 'Azalera',
+    analysis_area_crossed: 'Bat ere ez (aldeak gurutzatzen dira)',
+    analysis_angles: 'Barne-angeluak',
+    unit_cells: 'gelaxka',
+    shape_triangle: 'triangelua',
+    shape_equilateral_triangle: 'triangelu aldeberdina',
+    shape_isosceles_triangle: 'triangelu isoszelea',
+    shape_right_triangle: 'triangelu zuzena',
+    shape_square: 'karratua',
+    shape_rectangle: 'laukizuzena',
+    shape_rhombus: 'erronboa',
+    shape_parallelogram: 'paralelogramoa',
+    shape_quadrilateral: 'laukia',
+    shape_pentagon: 'pentagonoa',
+    shape_hexagon: 'hexagonoa',
+    shape_heptagon: 'heptagonoa',
+    shape_octagon: 'oktogonoa',
+    shape_polygon: '{count} aldeko poligonoa',
+    shape_regular_pentagon: 'pentagono erregularra',
+    shape_regular_hexagon: 'hexagono erregularra',
+    shape_regular_heptagon: 'heptagono erregularra',
+    shape_regular_octagon: 'oktogono erregularra',
+    shape_regular_polygon: '{count} aldeko poligono erregularra',
+    shape_star: 'izar erregularra',
+    shape_crossed: 'poligono gurutzatua',
+    unit_cm: 'cm',
+    unit_px: 'px',
+    distance_unit: 'Distantzia-unitatea',
+    color_sky: 'zeru-urdina',
+    color_red: 'gorria',
+    color_orange: 'laranja',
+    color_yellow: 'horia',
+    color_green: 'berdea',
+    color_indigo: 'indigoa',
+    color_purple: 'morea',
+    color_black: 'beltza',
+    announce_position: 'X {x}, Y {y}, norabidea {heading}°',
+    board_label: 'Marrazteko taula',
+    keyboard_shortcuts: 'Teklatua',
+    keyboard_help: '↑/↓: aurrera/atzera, ←/→: biratu, Sartu: exekutatu, Esc: gelditu, Tab: blokeetara joan, Ctrl+Z: desegin',
+    drive_mode: 'Gidatze modua',
+    drive_hint: 'Mugitu robota geziekin edo botoiekin. Mugimendu bakoitza programari gehitzen zaio.',
+    drive_stop: 'Irten gidatze modutik',
+    suggestions: 'Sinplifikatzeko iradokizunak',
+    suggestions_none: 'Iradokizunik ez: programa oso laburra da jada!',
+    suggest_repeat: '{position} blokeak: bloke berak {times} aldiz errepikatzen dira jarraian. Jarri ERREPIKATU batean',
+    suggest_merge: '{position} blokeak: jarraian dauden {count} mugimendu berdin batu daitezke',
+    suggest_cancel: '{position} blokeak: elkar konpentsatzen duten aurkako biraketak',
+    suggest_normalize: '{position} blokea: bira oso bat edo gehiago biratzea gutxiago biratzea bezala da',
+    suggest_duplicate: '{position} blokeak: arkatz bloke bera {count} aldiz jarraian, batekin nahikoa da',
+    suggest_remove: 'kendu (ez du ezer aldatzen)',
+    apply: 'Aplikatu',
+    value_out_of_range: 'Balioa mugetatik kanpo: «{token}»',
+    project_not_opened: 'Ezin da «{name}» proiektua ireki, eta dagoen bezala gordetzen da: {error}',
+    export_failed: 'Ezin izan da irudia sortu',
+    challenge_solution_fails: 'Uneko programa errore batekin gelditzen da: {error}',
+    import_read_failed: 'Ezin izan da fitxategia irakurri',
     scroll_hint: 'Korritu gehiago ikusteko'
   },
   en: {
@@ -136,6 +1228,17 @@ export const translations = {
     subtitle: 'Program the movements and draw!',
     run: 'Run',
     stop: 'Stop',
+    pause: 'Pause',
+    resume: 'Resume',
+    step: 'Step',
+    step_back: 'Step back',
+    loop_iteration: 'Loop iteration',
+    speed: 'Speed',
+    speed_slow: 'Slow',
+    speed_normal: 'Normal',
+    speed_fast: 'Fast',
+    speed_very_fast: 'Very fast',
+    speed_instant: 'Instant',
     clear: 'Clear',
     commands: 'Commands',
     cmd_forward: 'Forward',
@@ -143,6 +1246,10 @@ export const translations = {
     cmd_left: 'Left',
     cmd_right: 'Right',
     cmd_repeat: 'Repeat',
+    cmd_pen_up: 'Pen Up',
+    cmd_pen_down: 'Pen Down',
+    cmd_color: 'Color',
+    cmd_width: 'Width',
     sequence: 'Sequence',
     loop_view: 'Inside Loop',
     main_view: 'Main',
@@ -160,6 +1267,264 @@ export const translations = {
     footer_auth: '© David Cordones',
     license_code: 'Code license: AGPL v3',
     license_content: 'Content: CC BY-SA 4.0',
+    error_too_many_steps: 'The program is too long. It was stopped.',
+    kw_forward: 'FORWARD',
+    kw_backward: 'BACKWARD',
+    kw_left: 'LEFT',
+    kw_right: 'RIGHT',
+    kw_repeat: 'REPEAT',
+    kw_pen_up: 'PENUP',
+    kw_pen_down: 'PENDOWN',
+    kw_color: 'COLOR',
+    kw_width: 'WIDTH',
+    view_blocks: 'Blocks',
+    view_text: 'Text',
+    text_placeholder: 'Type your program, for example: REPEAT 4 [ FORWARD 3 RIGHT 90 ]',
+    error_position: 'Line {line}, column {column}',
+    parse_unknown_command: 'Unknown command: "{token}"',
+    parse_expected_command: 'Expected a command but found "{token}"',
+    parse_expected_number: 'A number is missing after the command',
+    parse_expected_bracket: '"[" is missing after the repeat count',
+    parse_unclosed_bracket: 'This "[" is never closed',
+    parse_unexpected_bracket: 'This "]" has no matching "["',
+    fix_errors_first: 'Fix the errors before going back to blocks',
+    block: 'Block',
+    export_program: 'Save program (JSON)',
+    import_program: 'Open a program (JSON)',
+    share_link: 'Copy share link',
+    import_done: 'Program loaded',
+    link_copied: 'Link copied!',
+    link_in_address_bar: 'The link is in the address bar',
+    import_invalid_json: 'The file is not valid JSON',
+    import_not_a_program: 'The file is not a RoboDibuix program',
+    import_unsupported_version: 'This program comes from a newer version ({token})',
+    import_invalid_block: 'invalid block',
+    import_unknown_type: 'unknown command "{token}"',
+    import_invalid_value: 'invalid value "{token}"',
+    import_value_out_of_range: 'value out of range "{token}"',
+    import_missing_children: 'the loop is missing its inner commands',
+    import_invalid_link: 'The link is broken',
+    project: 'Project',
+    projects: 'Projects',
+    new_project: 'New project',
+    close: 'Close',
+    open_project: 'Open project',
+    student_name: 'Student name (optional)',
+    last_saved: 'Saved',
+    rename: 'Rename',
+    duplicate: 'Duplicate',
+    delete: 'Delete',
+    confirm_delete_project: 'Delete "{name}"?',
+    copy: 'copy',
+    shared_project: 'Shared program',
+    storage_full: 'Could not save: the browser is out of space',
+    export_image: 'Export drawing',
+    export_with_grid: 'With grid',
+    export_with_robot: 'With robot',
+    undo: 'Undo',
+    redo: 'Redo',
+    move_hint: 'Drag to move. ←/→: previous/next block, Delete: remove, Alt+←/→: move, Alt+↓: into loop, Alt+↑: out of loop',
+    drop_into_loop: 'Drop here to put it inside the loop',
+    drop_to_move_out: 'Drop here to take it out of the loop',
+    view_tree: 'Tree',
+    breadcrumbs: 'Location in the program',
+    add_here: 'New blocks will be added here',
+    expand: 'Expand',
+    collapse: 'Collapse',
+    expand_all: 'Expand all',
+    collapse_all: 'Collapse all',
+    kw_define: 'DEFINE',
+    kw_call: 'CALL',
+    cmd_define: 'Define',
+    cmd_call: 'Call',
+    procedure_base_name: 'procedure',
+    param_base_name: 'value',
+    parse_expected_name: 'A name was expected (letters, digits and _, not starting with a digit)',
+    import_invalid_name: 'Invalid name',
+    error_duplicate_procedure: 'Two procedures have the same name',
+    error_unknown_procedure: 'This block calls a procedure that does not exist',
+    error_call_depth: 'Too many calls inside calls. Maybe a procedure calls itself forever?',
+    editing_procedure: 'Editing Procedure',
+    add_param: 'Add a parameter',
+    remove_param: 'Remove the parameter',
+    choose_procedure: 'Choose a procedure',
+    name_hint: 'Letters, digits and _, not starting with a digit',
+    procedures: 'Procedures',
+    drop_into_procedure: 'Drop here to put it inside the procedure',
+    kw_set: 'SET',
+    cmd_set_variable: 'Set',
+    variable_base_name: 'side',
+    counter: 'counter',
+    expression_hint: 'A number or an expression, e.g. side * 2',
+    expr_unexpected: '"{token}" was not expected here',
+    expr_incomplete: 'The expression is incomplete',
+    expr_unclosed_parenthesis: 'A parenthesis is not closed',
+    error_undefined_variable: 'The variable "{token}" has no value',
+    error_division_by_zero: 'Cannot divide by zero',
+    import_invalid_expression: 'invalid expression "{token}"',
+    kw_if: 'IF',
+    kw_else: 'ELSE',
+    kw_edge_ahead: 'EDGE',
+    kw_facing: 'FACING',
+    kw_painted_ahead: 'PAINTED',
+    kw_on_target: 'TARGET',
+    cmd_if: 'If',
+    cmd_else: 'Else',
+    cond_edge_ahead: 'Edge or wall ahead',
+    cond_facing: 'Facing',
+    cond_painted_ahead: 'Painted ahead',
+    cond_on_target: 'On a goal',
+    heading_north: 'North ↑',
+    heading_east: 'East →',
+    heading_south: 'South ↓',
+    heading_west: 'West ←',
+    editing_branch: 'Editing Condition',
+    drop_into_branch: 'Drop here to put it inside the condition',
+    error_else_without_if: 'An ELSE block must come right after an IF block',
+    parse_expected_condition: 'A condition was expected (EDGE, FACING, PAINTED or TARGET)',
+    import_invalid_condition: 'unknown condition "{token}"',
+    challenges: 'Challenges',
+    challenge_level_1: 'Easy',
+    challenge_level_2: 'Medium',
+    challenge_level_3: 'Hard',
+    exit_challenge: 'Leave challenge',
+    challenge_passed: 'Challenge solved!',
+    challenge_failed: 'Not yet',
+    challenge_block_count: '{count} blocks',
+    challenge_fewer_blocks: 'Can you do it with only {count} blocks?',
+    challenge_missing_lines: 'Some lines of the figure are missing',
+    challenge_extra_lines: 'You drew lines that are not in the figure',
+    challenge_square_title: 'Square',
+    challenge_square_description: 'Draw a square with sides of 3 cells, starting upwards and turning right.',
+    challenge_square_hint: 'A square has 4 equal sides and 4 turns of 90°. Try the Repeat block.',
+    challenge_triangle_title: 'Triangle',
+    challenge_triangle_description: 'Draw an equilateral triangle with sides of 4 cells.',
+    challenge_triangle_hint: 'To close a triangle the robot must turn 120° at each corner.',
+    challenge_stairs_title: 'Stairs',
+    challenge_stairs_description: 'Climb 4 steps of one cell, going up and to the right.',
+    challenge_stairs_hint: 'Each step is: up, right, and face up again.',
+    challenge_house_title: 'House',
+    challenge_house_description: 'Draw a house: a square of 4 cells with a triangular roof on top.',
+    challenge_house_hint: 'Draw the square first, go up to the top corner and turn 30° before drawing the roof.',
+    challenge_star_title: 'Star',
+    challenge_star_description: 'Draw a 5-pointed star with lines of 6 cells.',
+    challenge_star_hint: 'At each point the robot turns 144°, 5 times.',
+    new_challenge: 'New challenge',
+    new_challenge_hint: 'The current program is the solution: what it draws becomes the challenge figure',
+    import_challenge: 'Open challenge',
+    start_challenge: 'Start the challenge',
+    export_challenge: 'Save the challenge to a file',
+    confirm_delete_challenge: 'Delete the challenge "{name}"?',
+    challenge_forbidden_blocks: 'These blocks are not allowed in this challenge: {blocks}',
+    challenge_too_many_blocks: 'Use {count} blocks at most',
+    challenge_max_blocks: 'At most {count} blocks',
+    challenge_title: 'Title',
+    challenge_level: 'Difficulty',
+    challenge_description: 'Description',
+    challenge_hint: 'Hint',
+    start_x: 'Start X',
+    start_y: 'Start Y',
+    start_heading: 'Start heading',
+    challenge_max_blocks_field: 'Maximum blocks',
+    no_limit: 'No limit',
+    challenge_allowed_blocks: 'Allowed blocks',
+    challenge_needs_drawing: 'The current program does not draw anything',
+    challenge_needs_title: 'Give the challenge a title',
+    save_challenge: 'Create challenge',
+    import_not_a_challenge: 'This file is not a RoboDibuix challenge',
+    import_invalid_challenge: 'The challenge is damaged (field "{token}")',
+    board_settings: 'Board',
+    board_columns: 'Columns',
+    board_rows: 'Rows',
+    board_cell_size: 'Cell size (px)',
+    board_start_hint: 'Drag the green ring to move where the robot starts, and the dot to turn it.',
+    board_reset: 'Default board',
+    drag_start: 'Drag to move the start',
+    turn_start: 'Drag to turn the start heading',
+    import_invalid_board: 'The board is not valid (field "{token}")',
+    edge_mode: 'At the board edge',
+    edge_error: 'Stop with an error',
+    edge_clamp: 'Stay at the edge',
+    edge_wrap: 'Come out the other side',
+    error_off_board: 'The robot hit the edge of the board',
+    error_crash: 'The robot crashed into a wall',
+    goal_reached: 'Goal reached!',
+    maze_tools: 'Maze (click the board)',
+    tool_blocked: 'Blocked cell',
+    tool_wall: 'Wall',
+    tool_goal: 'Goal',
+    clear_maze: 'Clear maze',
+    challenge_goal_only: 'Only reach a goal (nothing to draw)',
+    challenge_missed_goal: 'The robot must end on a goal',
+    challenge_solution_misses_goal: 'The current program does not reach a goal',
+    analysis: 'Shape analysis',
+    analysis_distance: 'Distance travelled',
+    analysis_turning: 'Total turn',
+    analysis_nothing_drawn: 'Nothing was drawn',
+    analysis_several_lines: 'The drawing has {count} separate lines, so it is not one closed shape',
+    analysis_closed: 'Closed shape',
+    analysis_open: 'Open line: it ends {gap} away from its start',
+    analysis_turn_short: 'The robot turned {angle}° less than a full turn',
+    analysis_turn_over: 'The robot turned {angle}° more than a full turn',
+    analysis_corners: 'Corners',
+    analysis_perimeter: 'Perimeter',
+    analysis_area: 'Area',
+    analysis_area_crossed: 'None (the sides cross)',
+    analysis_angles: 'Interior angles',
+    unit_cells: 'cells',
+    shape_triangle: 'triangle',
+    shape_equilateral_triangle: 'equilateral triangle',
+    shape_isosceles_triangle: 'isosceles triangle',
+    shape_right_triangle: 'right triangle',
+    shape_square: 'square',
+    shape_rectangle: 'rectangle',
+    shape_rhombus: 'rhombus',
+    shape_parallelogram: 'parallelogram',
+    shape_quadrilateral: 'quadrilateral',
+    shape_pentagon: 'pentagon',
+    shape_hexagon: 'hexagon',
+    shape_heptagon: 'heptagon',
+    shape_octagon: 'octagon',
+    shape_polygon: '{count}-sided polygon',
+    shape_regular_pentagon: 'regular pentagon',
+    shape_regular_hexagon: 'regular hexagon',
+    shape_regular_heptagon: 'regular heptagon',
+    shape_regular_octagon: 'regular octagon',
+    shape_regular_polygon: 'regular {count}-sided polygon',
+    shape_star: 'regular star',
+    shape_crossed: 'crossed polygon',
+    unit_cm: 'cm',
+    unit_px: 'px',
+    distance_unit: 'Distance unit',
+    color_sky: 'sky blue',
+    color_red: 'red',
+    color_orange: 'orange',
+    color_yellow: 'yellow',
+    color_green: 'green',
+    color_indigo: 'indigo',
+    color_purple: 'purple',
+    color_black: 'black',
+    announce_position: 'X {x}, Y {y}, heading {heading}°',
+    board_label: 'Drawing board',
+    keyboard_shortcuts: 'Keyboard',
+    keyboard_help: '↑/↓: forward/back, ←/→: turn, Enter: run, Esc: stop, Tab: go to the blocks, Ctrl+Z: undo',
+    drive_mode: 'Drive mode',
+    drive_hint: 'Move the robot with the arrow keys or the buttons. Every move is added to the program.',
+    drive_stop: 'Leave drive mode',
+    suggestions: 'Simplification suggestions',
+    suggestions_none: 'No suggestions: the program is already short!',
+    suggest_repeat: 'Blocks {position}: the same blocks repeat {times} times in a row. Put them in a REPEAT',
+    suggest_merge: 'Blocks {position}: {count} equal moves in a row can be joined',
+    suggest_cancel: 'Blocks {position}: opposite turns that make up for each other',
+    suggest_normalize: 'Block {position}: turning a full turn or more is like turning less',
+    suggest_duplicate: 'Blocks {position}: the same pen block {count} times in a row, one is enough',
+    suggest_remove: 'remove (changes nothing)',
+    apply: 'Apply',
+    value_out_of_range: 'Value out of range: "{token}"',
+    project_not_opened: 'The project "{name}" can\'t be opened and is kept unchanged: {error}',
+    export_failed: 'The image could not be created',
+    challenge_solution_fails: 'The current program stops with an error: {error}',
+    import_read_failed: 'The file could not be read',
     scroll_hint: 'Scroll to see more'
   }
 };
@@ -10,13 +10,43 @@ export enum CommandType {
   TURN_RIGHT = 'TURN_RIGHT',
   TURN_LEFT = 'TURN_LEFT',
   REPEAT = 'REPEAT',
+  PEN_UP = 'PEN_UP',
+  PEN_DOWN = 'PEN_DOWN',
+  SET_COLOR = 'SET_COLOR',
+  SET_WIDTH = 'SET_WIDTH',
+  DEFINE = 'DEFINE',
+  CALL = 'CALL',
+  SET_VARIABLE = 'SET_VARIABLE',
+  IF = 'IF',
+  ELSE = 'ELSE',
+}
+
+// What an IF block asks the robot's sensors
+export enum Condition {
+  EDGE_AHEAD = 'EDGE_AHEAD', // One more step forward would leave the board or hit a wall
+  FACING = 'FACING', // Heading matches the block value (0 north, 90 east, 180 south, 270 west)
+  PAINTED_AHEAD = 'PAINTED_AHEAD', // The next step forward is already drawn
+  ON_TARGET = 'ON_TARGET', // Standing on a goal cell
 }
 
 export interface Command {
   id: string;
   type: CommandType;
   value: number;
-  children?: Command[]; // For nested commands in REPEAT
+  expr?: string; // Expression like `side * 2`, used instead of value when present
+  children?: Command[]; // For nested commands in REPEAT, DEFINE, IF and ELSE
+  // DEFINE and CALL: procedure name. SET_VARIABLE: variable name.
+  // REPEAT: optional name of the counter variable (1, 2, 3...) inside the loop.
+  name?: string;
+  params?: string[]; // Parameter names, for DEFINE
+  args?: CallArgument[]; // One per parameter of the called procedure, for CALL
+  condition?: Condition; // For IF. An ELSE right after an IF runs when it was false
+}
+
+// A value passed by CALL: a number or an expression, like a block value
+export interface CallArgument {
+  value: number;
+  expr?: string;
 }
 
 export interface RobotState {
@@ -24,9 +54,73 @@ export interface RobotState {
   y: number;
   angle: number; // In degrees, 0 points East (Right)
   penDown: boolean;
+  penColor: string;
+  penWidth: number; // In pixels
 }
 
 export interface Point {
   x: number;
   y: number;
+}
+
+// Where the robot starts: board pixels and angle in degrees, like RobotState
+export interface StartPose {
+  x: number;
+  y: number;
+  angle: number;
+}
+
+// What happens when a move would take the robot off the board
+export enum EdgeMode {
+  ERROR = 'ERROR', // Stop at the edge and halt the program with an error
+  CLAMP = 'CLAMP', // Stop at the edge and go on with the next block
+  WRAP = 'WRAP', // Come back in from the opposite side, like classic turtle graphics
+}
+
+// What a distance of 1 means in FORWARD and BACKWARD
+export enum DistanceUnit {
+  CELLS = 'CELLS', // One grid cell, whatever its size
+  CM = 'CM', // A centimetre on screen at 100% zoom
+  PX = 'PX', // A board pixel
+}
+
+export interface BoardSize {
+  width: number; // In pixels
+  height: number;
+  cellSize: number; // Pixels per grid cell, i.e. per unit of movement
+}
+
+// A grid cell, counted from the top left corner of the board
+export interface Cell {
+  column: number;
+  row: number;
+}
+
+// A wall one cell long on a grid line, from the crossing at the top left corner of
+// the given cell to the right (horizontal) or down (vertical)
+export interface Wall extends Cell {
+  vertical: boolean;
+}
+
+// Maze elements placed on the board
+export interface BoardLayout {
+  blocked: Cell[]; // The robot can't enter them
+  walls: Wall[]; // The robot can't cross them
+  goals: Cell[]; // Cells to reach, sensed by IF ON_TARGET
+}
+
+// Board, distance unit, edge mode, maze and start pose, stored with each program
+export interface BoardSettings extends BoardSize {
+  unit: DistanceUnit;
+  edgeMode: EdgeMode;
+  layout: BoardLayout;
+  start: StartPose;
+}
+
+// A continuous polyline drawn with a single pen style.
+// Lifting the pen or changing color/width starts a new segment.
+export interface PathSegment {
+  points: Point[];
+  color: string;
+  width: number;
 }
\ No newline at end of file
@@ -17,7 +17,7 @@ const initAudio = () => {
   return audioCtx;
 };
 
-export const playSound = (type: 'move' | 'turn' | 'clear' | 'start' | 'error') => {
+export const playSound = (type: 'move' | 'turn' | 'clear' | 'start' | 'error' | 'success' | 'crash') => {
   const ctx = initAudio();
   if (!ctx) return;
 
@@ -74,5 +74,26 @@ export const playSound = (type: 'move' | 'turn' | 'clear' | 'start' | 'error') =
       osc.start(now);
       osc.stop(now + 0.2);
       break;
+    case 'crash':
+      // Short low thud when the robot hits a wall
+      osc.type = 'square';
+      osc.frequency.setValueAtTime(180, now);
+      osc.frequency.exponentialRampToValueAtTime(40, now + 0.25);
+      gainNode.gain.setValueAtTime(0.4, now);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, now + 0.25);
+      osc.start(now);
+      osc.stop(now + 0.25);
+      break;
+    case 'success':
+      // Rising arpeggio, e.g. for a solved challenge
+      osc.type = 'triangle';
+      osc.frequency.setValueAtTime(523, now);
+      osc.frequency.setValueAtTime(659, now + 0.1);
+      osc.frequency.setValueAtTime(784, now + 0.2);
+      gainNode.gain.setValueAtTime(0.2, now);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, now + 0.45);
+      osc.start(now);
+      osc.stop(now + 0.45);
+      break;
   }
 };
\ No newline at end of file
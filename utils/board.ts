@@ -0,0 +1,88 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Board size, cell size, distance unit, maze and start pose of a program.
+// Everything is stored in pixels, the editor works in whole cells.
+
+import { BoardSettings, Point, RobotState, StartPose } from '../types';
+import { GRID_SIZE, CANVAS_WIDTH, CANVAS_HEIGHT, START_X, START_Y, START_ANGLE, BOARD_LIMITS } from '../constants';
+import { INITIAL_ROBOT_STATE } from './interpreter';
+import { Board, DEFAULT_EDGE_MODE } from './sensors';
+import { EMPTY_LAYOUT, fitLayout, isLayoutEmpty } from './maze';
+import { DEFAULT_UNIT, getUnitLength } from './units';
+
+export const DEFAULT_BOARD_SETTINGS: BoardSettings = {
+  width: CANVAS_WIDTH,
+  height: CANVAS_HEIGHT,
+  cellSize: GRID_SIZE,
+  unit: DEFAULT_UNIT,
+  edgeMode: DEFAULT_EDGE_MODE,
+  layout: EMPTY_LAYOUT,
+  start: { x: START_X, y: START_Y, angle: START_ANGLE },
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const getStartState = (settings: BoardSettings): RobotState => ({ ...INITIAL_ROBOT_STATE, ...settings.start });
+
+// What the robot sensors see
+export const getBoard = (settings: BoardSettings): Board => ({
+  width: settings.width,
+  height: settings.height,
+  cellSize: settings.cellSize,
+  unit: settings.unit,
+  edgeMode: settings.edgeMode,
+  layout: settings.layout,
+});
+
+export const getColumns = (settings: BoardSettings) => Math.round(settings.width / settings.cellSize);
+export const getRows = (settings: BoardSettings) => Math.round(settings.height / settings.cellSize);
+
+// Nearest grid crossing or cell center inside the board (half cell steps)
+export const snapToGrid = (point: Point, settings: BoardSettings): Point => ({
+  x: (clamp(Math.round((2 * point.x) / settings.cellSize), 0, 2 * getColumns(settings)) * settings.cellSize) / 2,
+  y: (clamp(Math.round((2 * point.y) / settings.cellSize), 0, 2 * getRows(settings)) * settings.cellSize) / 2,
+});
+
+export const moveStart = (settings: BoardSettings, start: StartPose): BoardSettings => ({
+  ...settings,
+  start: { ...snapToGrid(start, settings), angle: start.angle },
+});
+
+// New size in cells. The start stays at the same relative place (e.g. the center),
+// a smaller cell size shrinks the whole drawing and the maze loses what no longer fits
+export const resizeBoard = (settings: BoardSettings, columns: number, rows: number, cellSize: number): BoardSettings => {
+  const size = clamp(Math.round(cellSize), BOARD_LIMITS.cellSize.min, BOARD_LIMITS.cellSize.max);
+  const resized = {
+    ...settings,
+    width: clamp(Math.round(columns), BOARD_LIMITS.cells.min, BOARD_LIMITS.cells.max) * size,
+    height: clamp(Math.round(rows), BOARD_LIMITS.cells.min, BOARD_LIMITS.cells.max) * size,
+    cellSize: size,
+  };
+  resized.layout = fitLayout(settings.layout, resized.width / size, resized.height / size);
+  return moveStart(resized, {
+    ...settings.start,
+    x: (settings.start.x / settings.width) * resized.width,
+    y: (settings.start.y / settings.height) * resized.height,
+  });
+};
+
+// Position in distance units from the start, Y up, as shown on the board
+export const toGridCoordinates = (point: Point, settings: BoardSettings): Point => ({
+  x: (point.x - settings.start.x) / getUnitLength(settings.unit, settings.cellSize),
+  y: -(point.y - settings.start.y) / getUnitLength(settings.unit, settings.cellSize),
+});
+
+// Two decimals at most, since moves can be fractional
+export const formatCoordinate = (n: number) => String(Math.round(n * 100) / 100);
+
+export const isDefaultBoard = ({ width, height, cellSize, unit, edgeMode, layout, start }: BoardSettings) => {
+  const defaults = DEFAULT_BOARD_SETTINGS;
+  return width === defaults.width && height === defaults.height && cellSize === defaults.cellSize
+    && unit === defaults.unit && edgeMode === defaults.edgeMode
+    && isLayoutEmpty(layout)
+    && start.x === defaults.start.x && start.y === defaults.start.y && start.angle === defaults.start.angle;
+};
@@ -0,0 +1,144 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Versioned format for custom challenges, as files and share links.
+// Only the target figure is stored, never the reference solution.
+
+import { validate as isUuid } from 'uuid';
+import { CommandType, DistanceUnit, Point } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, GRID_SIZE } from '../constants';
+import { Challenge } from './challenges';
+import { encodeBase64Url, decodeBase64Url } from './programFile';
+import { parseLayout } from './maze';
+
+export const CHALLENGE_FORMAT = 'robodibuix-challenge';
+// 1: first version
+// 2: maze layout (blocked cells, walls and goals)
+// 3: distance unit
+export const CHALLENGE_FORMAT_VERSION = 3;
+
+export interface ChallengeFile {
+  format: typeof CHALLENGE_FORMAT;
+  version: number;
+  challenge: Challenge;
+}
+
+export interface ChallengeLoadError {
+  key: string; // Translation key for the message
+  token?: string; // Offending field or value, if any
+}
+
+export interface ChallengeLoadResult {
+  challenge?: Challenge; // Missing when there is an error
+  error?: ChallengeLoadError;
+}
+
+const SHARE_HASH_PREFIX = '#c=';
+const MAX_TEXT_LENGTH = 1000;
+const MAX_BLOCKS = 1000;
+
+// Half a pixel is invisible on the board and keeps links short
+const roundPoint = (point: Point): Point => ({
+  x: Math.round(point.x * 100) / 100,
+  y: Math.round(point.y * 100) / 100,
+});
+
+export const serializeChallenge = (challenge: Challenge): ChallengeFile => ({
+  format: CHALLENGE_FORMAT,
+  version: CHALLENGE_FORMAT_VERSION,
+  challenge: { ...challenge, target: challenge.target.map(points => points.map(roundPoint)) },
+});
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number => {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+};
+
+// Points may be off the board (the robot can leave it), but not absurdly far
+const isBoardPoint = (point: unknown): point is Point => {
+  const { x, y } = (point || {}) as Partial<Point>;
+  return isNumberIn(x, -CANVAS_WIDTH * 10, CANVAS_WIDTH * 11) && isNumberIn(y, -CANVAS_HEIGHT * 10, CANVAS_HEIGHT * 11);
+};
+
+export const validateChallenge = (data: unknown): ChallengeLoadResult => {
+  const fail = (key: string, token?: string): ChallengeLoadResult => ({ error: { key, token } });
+
+  if (!data || typeof data !== 'object') return fail('import_not_a_challenge');
+  const file = data as Partial<ChallengeFile>;
+  if (file.format !== CHALLENGE_FORMAT || !file.challenge || typeof file.challenge !== 'object') {
+    return fail('import_not_a_challenge');
+  }
+  if (!Number.isInteger(file.version) || file.version < 1 || file.version > CHALLENGE_FORMAT_VERSION) {
+    return fail('import_unsupported_version', String(file.version));
+  }
+
+  const { id, level, target, bestBlocks, title, description, hint, start, layout, unit, allowedBlocks, maxBlocks } = file.challenge as Partial<Challenge>;
+  // Custom challenges get a UUID, so they can't take the place of a built-in one like "square"
+  if (typeof id !== 'string' || !isUuid(id)) return fail('import_invalid_challenge', 'id');
+  if (!isNumberIn(level, 1, 3) || !Number.isInteger(level)) return fail('import_invalid_challenge', 'level');
+  if (!isNumberIn(bestBlocks, 0, MAX_BLOCKS)) return fail('import_invalid_challenge', 'bestBlocks');
+  if (!Array.isArray(target) || !target.every(points => Array.isArray(points) && points.every(isBoardPoint))) {
+    return fail('import_invalid_challenge', 'target');
+  }
+  for (const [field, text] of Object.entries({ title, description, hint })) {
+    if (typeof text !== 'string' || text.length > MAX_TEXT_LENGTH) return fail('import_invalid_challenge', field);
+  }
+  // The start must be on the board, as in validateBoard
+  if (start !== undefined && !(isNumberIn(start?.x, 0, CANVAS_WIDTH) && isNumberIn(start?.y, 0, CANVAS_HEIGHT) && isNumberIn(start?.angle, -3600, 3600))) {
+    return fail('import_invalid_challenge', 'start');
+  }
+  // Challenges are played on the default board
+  const validLayout = layout === undefined ? undefined : parseLayout(layout, CANVAS_WIDTH / GRID_SIZE, CANVAS_HEIGHT / GRID_SIZE);
+  if (layout !== undefined && !validLayout) return fail('import_invalid_challenge', 'layout');
+  if (unit !== undefined && !Object.values(DistanceUnit).includes(unit)) return fail('import_invalid_challenge', 'unit');
+  if (allowedBlocks !== undefined && !(Array.isArray(allowedBlocks) && allowedBlocks.every(type => Object.values(CommandType).includes(type)))) {
+    return fail('import_invalid_challenge', 'allowedBlocks');
+  }
+  if (maxBlocks !== undefined && !(isNumberIn(maxBlocks, 1, MAX_BLOCKS) && Number.isInteger(maxBlocks))) {
+    return fail('import_invalid_challenge', 'maxBlocks');
+  }
+
+  return {
+    challenge: {
+      id,
+      level,
+      target: target.map(points => points.map(({ x, y }) => ({ x, y }))),
+      bestBlocks,
+      title,
+      description,
+      hint,
+      ...(start ? { start: { x: start.x, y: start.y, angle: start.angle } } : {}),
+      ...(validLayout ? { layout: validLayout } : {}),
+      ...(unit ? { unit } : {}),
+      ...(allowedBlocks ? { allowedBlocks: [...allowedBlocks] } : {}),
+      ...(maxBlocks !== undefined ? { maxBlocks } : {}),
+    },
+  };
+};
+
+// Returns null when the text is JSON but not a challenge (e.g. a program file)
+export const parseChallengeFile = (json: string): ChallengeLoadResult | null => {
+  try {
+    const data = JSON.parse(json);
+    if (data?.format !== CHALLENGE_FORMAT) return null;
+    return validateChallenge(data);
+  } catch {
+    return null;
+  }
+};
+
+export const encodeChallengeHash = (challenge: Challenge): string => {
+  return `${SHARE_HASH_PREFIX}${encodeBase64Url(JSON.stringify(serializeChallenge(challenge)))}`;
+};
+
+// Returns null when the hash does not contain a challenge at all
+export const decodeChallengeHash = (hash: string): ChallengeLoadResult | null => {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+  try {
+    return validateChallenge(JSON.parse(decodeBase64Url(hash.slice(SHARE_HASH_PREFIX.length))));
+  } catch {
+    return { error: { key: 'import_invalid_link' } };
+  }
+};
@@ -0,0 +1,190 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Challenge mode: draw a target figure and/or reach a goal cell of a maze. The drawing is
+// checked automatically after each run (see shapeCompare) and shorter programs earn more stars.
+// Teachers can author their own challenges from a reference solution (see challengeFile).
+
+import { v4 as uuidv4 } from 'uuid';
+import { BoardLayout, BoardSettings, Command, CommandType, DistanceUnit, Point, StartPose } from '../types';
+import { STORAGE_KEYS } from '../constants';
+import { runProgram, ExecutionTrace, ExecutionError } from './interpreter';
+import { DEFAULT_BOARD_SETTINGS, getBoard, getColumns, getRows, getStartState } from './board';
+import { fitLayout, isLayoutEmpty } from './maze';
+import { isOnGoal } from './sensors';
+import { DEFAULT_UNIT } from './units';
+import { parseProgram } from './programText';
+import { countCommands } from './commandTree';
+import { compareShapes } from './shapeCompare';
+import { serializeChallenge, validateChallenge } from './challengeFile';
+
+export interface Challenge {
+  id: string;
+  level: number; // Difficulty, 1 (easy) to 3 (hard)
+  target: Point[][]; // Lines to draw, in pixels of the default board. Empty when only a goal must be reached
+  bestBlocks: number; // Blocks of the shortest known solution, needed for 3 stars
+  // Custom challenges carry their own texts, built-in ones are translated
+  title?: string;
+  description?: string;
+  hint?: string;
+  start?: StartPose; // Initial robot position when missing
+  layout?: BoardLayout; // Maze. With goals, the robot must end on one of them
+  unit?: DistanceUnit; // Of FORWARD and BACKWARD, cells when missing
+  allowedBlocks?: CommandType[]; // Palette restriction, every block when missing
+  maxBlocks?: number; // Longer programs fail
+}
+
+export interface ChallengeResult {
+  passed: boolean;
+  stars: number; // 1 to 3 when passed, 0 otherwise
+  blockCount: number;
+  missing: number; // Target lines not drawn
+  extra: number; // Drawn lines that are not in the target
+  tooManyBlocks: boolean; // Over maxBlocks
+  missedGoal: boolean; // The maze has goals and the robot didn't end on one
+  forbiddenBlocks: CommandType[]; // Used but not allowed
+}
+
+// Built-in challenges are defined by a reference solution, which gives both the
+// target figure and the block count for 3 stars. Texts are in translations.ts
+// (challenge_<id>_title, challenge_<id>_description and challenge_<id>_hint).
+const fromSolution = (id: string, level: number, solution: string): Challenge => {
+  const commands = parseProgram(solution).commands;
+  return {
+    id,
+    level,
+    target: runProgram(commands).segments.map(segment => segment.points).filter(points => points.length > 1),
+    bestBlocks: countCommands(commands),
+  };
+};
+
+export const BUILT_IN_CHALLENGES: Challenge[] = [
+  fromSolution('square', 1, 'REPEAT 4 [ FORWARD 3 RIGHT 90 ]'),
+  fromSolution('triangle', 1, 'REPEAT 3 [ FORWARD 4 RIGHT 120 ]'),
+  fromSolution('stairs', 2, 'REPEAT 4 [ FORWARD 1 RIGHT 90 FORWARD 1 LEFT 90 ]'),
+  fromSolution('house', 2, 'REPEAT 4 [ FORWARD 4 RIGHT 90 ] FORWARD 4 RIGHT 30 REPEAT 3 [ FORWARD 4 RIGHT 120 ]'),
+  fromSolution('star', 3, 'REPEAT 5 [ FORWARD 6 RIGHT 144 ]'),
+];
+
+export const isCustomChallenge = (challenge: Challenge) => challenge.title !== undefined;
+
+export const getChallengeText = (challenge: Challenge, field: 'title' | 'description' | 'hint', t: (key: string) => string) => {
+  if (isCustomChallenge(challenge)) return challenge[field] || '';
+  return t(`challenge_${challenge.id}_${field}`);
+};
+
+// Challenges are played on the default board, whatever the program settings are
+export const getChallengeBoard = (challenge: Challenge): BoardSettings => ({
+  ...DEFAULT_BOARD_SETTINGS,
+  ...(challenge.start ? { start: challenge.start } : {}),
+  ...(challenge.layout ? { layout: challenge.layout } : {}),
+  ...(challenge.unit ? { unit: challenge.unit } : {}),
+});
+
+export interface CustomChallengeOptions {
+  title: string;
+  description: string;
+  hint: string;
+  level: number;
+  start: StartPose;
+  layout: BoardLayout; // Cut to the default board
+  goalOnly: boolean; // Nothing to draw, reaching a goal is enough
+  unit: DistanceUnit; // The solution's, so players move the same way
+  allowedBlocks?: CommandType[];
+  maxBlocks?: number;
+}
+
+export interface CustomChallengeResult {
+  challenge?: Challenge; // Missing when there is an error
+  error?: ExecutionError; // The solution does not run to its end
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// The teacher's program is the reference solution: it gives the target and the block count for 3 stars.
+// A solution that stops with an error (a wall, the edge...) would leave a target it never reaches.
+export const createCustomChallenge = (solution: Command[], options: CustomChallengeOptions): CustomChallengeResult => {
+  const { layout, goalOnly, unit, start, ...fields } = options;
+  const { width, height } = DEFAULT_BOARD_SETTINGS;
+  const mazeLayout = fitLayout(layout, getColumns(DEFAULT_BOARD_SETTINGS), getRows(DEFAULT_BOARD_SETTINGS));
+  const challenge: Challenge = {
+    id: uuidv4(),
+    ...fields,
+    // On the board, like validateBoard requires
+    start: { x: clamp(start.x, 0, width), y: clamp(start.y, 0, height), angle: clamp(start.angle, -3600, 3600) },
+    ...(isLayoutEmpty(mazeLayout) ? {} : { layout: mazeLayout }),
+    ...(unit === DEFAULT_UNIT ? {} : { unit }),
+    target: [],
+    bestBlocks: countCommands(solution),
+  };
+  const board = getChallengeBoard(challenge);
+  const { segments, error } = runProgram(solution, getStartState(board), getBoard(board));
+  if (error) return { error };
+  if (goalOnly) return { challenge };
+  return { challenge: { ...challenge, target: segments.map(segment => segment.points).filter(points => points.length > 1) } };
+};
+
+const collectTypes = (list: Command[]): CommandType[] => {
+  return list.flatMap(c => [c.type, ...(c.children ? collectTypes(c.children) : [])]);
+};
+
+// Stars by program length: 3 up to the best solution, 2 up to twice as long, 1 otherwise
+export const checkChallenge = (challenge: Challenge, trace: ExecutionTrace, commands: Command[]): ChallengeResult => {
+  // A goal-only maze doesn't care about the drawing
+  const drawingMatters = challenge.target.length > 0 || !challenge.layout?.goals.length;
+  const { matches, missing, extra } = drawingMatters
+    ? compareShapes(trace.segments.map(segment => segment.points), challenge.target)
+    : { matches: true, missing: 0, extra: 0 };
+  const board = getChallengeBoard(challenge);
+  const missedGoal = board.layout.goals.length > 0 && !isOnGoal(trace.finalState, getBoard(board));
+  const blockCount = countCommands(commands);
+  const tooManyBlocks = challenge.maxBlocks !== undefined && blockCount > challenge.maxBlocks;
+  const forbiddenBlocks = challenge.allowedBlocks
+    ? [...new Set(collectTypes(commands))].filter(type => !challenge.allowedBlocks.includes(type))
+    : [];
+  const passed = matches && !missedGoal && !tooManyBlocks && forbiddenBlocks.length === 0;
+  const stars = !passed ? 0 : blockCount <= challenge.bestBlocks ? 3 : blockCount <= challenge.bestBlocks * 2 ? 2 : 1;
+  return { passed, stars, blockCount, missing, extra, tooManyBlocks, missedGoal, forbiddenBlocks };
+};
+
+// Best stars earned per challenge id
+export const loadChallengeStars = (): Record<string, number> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEYS.challengeStars) || '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveChallengeStars = (stars: Record<string, number>) => {
+  try {
+    localStorage.setItem(STORAGE_KEYS.challengeStars, JSON.stringify(stars));
+  } catch {
+    // Losing the stars is not worth bothering the student
+  }
+};
+
+// Challenges made or received by the teacher, checked like imported files
+export const loadCustomChallenges = (): Challenge[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEYS.customChallenges) || '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.map(file => validateChallenge(file).challenge).filter(Boolean);
+  } catch {
+    return [];
+  }
+};
+
+// Returns false when the browser refuses to store them (e.g. quota exceeded)
+export const saveCustomChallenges = (challenges: Challenge[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEYS.customChallenges, JSON.stringify(challenges.map(serializeChallenge)));
+    return true;
+  } catch {
+    return false;
+  }
+};
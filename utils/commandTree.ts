@@ -0,0 +1,210 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Pure helpers to edit the immutable command tree.
+// A parentId of null means the main sequence, otherwise the id of a block with a body.
+
+import { v4 as uuidv4 } from 'uuid';
+import { Command, CommandType, Condition } from '../types';
+import { DEFAULT_PEN_WIDTH } from '../constants';
+
+export type KeyboardMove = 'left' | 'right' | 'in' | 'out';
+
+// Commands with a body of nested commands
+export const hasBody = (type: CommandType) => {
+  return [CommandType.REPEAT, CommandType.DEFINE, CommandType.IF, CommandType.ELSE].includes(type);
+};
+
+export const getDefaultValue = (type: CommandType): number => {
+  switch (type) {
+    case CommandType.REPEAT: return 2;
+    case CommandType.TURN_LEFT:
+    case CommandType.TURN_RIGHT: return 90;
+    case CommandType.PEN_UP:
+    case CommandType.PEN_DOWN:
+    case CommandType.DEFINE:
+    case CommandType.CALL:
+    case CommandType.ELSE: return 0; // No value needed
+    case CommandType.IF: return 0; // Only used by FACING, 0 = north
+    case CommandType.SET_COLOR: return 1; // First color after the default one
+    case CommandType.SET_WIDTH: return DEFAULT_PEN_WIDTH;
+    case CommandType.SET_VARIABLE: return 0;
+    default: return 1;
+  }
+};
+
+export const createCommand = (type: CommandType, value = getDefaultValue(type)): Command => ({
+  id: uuidv4(),
+  type,
+  value,
+  children: hasBody(type) ? [] : undefined,
+  ...(type === CommandType.DEFINE ? { name: '', params: [] } : {}),
+  ...(type === CommandType.CALL ? { name: '', args: [] } : {}),
+  ...(type === CommandType.IF ? { condition: Condition.EDGE_AHEAD } : {}),
+});
+
+// Apply updateFn to the list of the given container
+export const updateTree = (cmds: Command[], parentId: string | null, updateFn: (list: Command[]) => Command[]): Command[] => {
+  if (parentId === null) {
+    return updateFn(cmds);
+  }
+  return cmds.map(cmd => {
+    if (cmd.id === parentId) {
+      return { ...cmd, children: updateFn(cmd.children || []) };
+    }
+    if (cmd.children) {
+      return { ...cmd, children: updateTree(cmd.children, parentId, updateFn) };
+    }
+    return cmd;
+  });
+};
+
+// Every block in the program, nested ones included
+export const countCommands = (list: Command[]): number => {
+  return list.reduce((total, c) => total + 1 + (c.children ? countCommands(c.children) : 0), 0);
+};
+
+export const findCommand = (list: Command[], id: string): Command | null => {
+  for (const c of list) {
+    if (c.id === id) return c;
+    if (c.children) {
+      const found = findCommand(c.children, id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// Where a command lives: its container and position, or null if it is not in the tree
+export const findLocation = (list: Command[], id: string, parentId: string | null = null): { parentId: string | null; index: number } | null => {
+  for (let i = 0; i < list.length; i++) {
+    if (list[i].id === id) return { parentId, index: i };
+    const children = list[i].children;
+    if (children) {
+      const found = findLocation(children, id, list[i].id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// Loops enclosing a command, outermost first, ending with the command itself.
+// Empty if the id is not in the tree.
+export const getCommandPath = (list: Command[], id: string): Command[] => {
+  for (const c of list) {
+    if (c.id === id) return [c];
+    if (c.children) {
+      const inner = getCommandPath(c.children, id);
+      if (inner.length > 0) return [c, ...inner];
+    }
+  }
+  return [];
+};
+
+// Block position like "2.1" (first block inside the second one), as in import errors.
+// Null if the id is not in the tree.
+export const getCommandPosition = (list: Command[], id: string): string | null => {
+  const path = getCommandPath(list, id);
+  if (path.length === 0) return null;
+  let siblings = list;
+  return path.map(c => {
+    const index = siblings.indexOf(c);
+    siblings = c.children || [];
+    return index + 1;
+  }).join('.');
+};
+
+export const removeCommand = (list: Command[], id: string): Command[] => {
+  return list.filter(c => c.id !== id).map(c => ({
+    ...c,
+    children: c.children ? removeCommand(c.children, id) : undefined
+  }));
+};
+
+// expr undefined = the value is a plain number
+export const updateCommandValue = (list: Command[], id: string, value: number, expr?: string): Command[] => {
+  return list.map(c => {
+    if (c.id === id) return { ...c, value, expr };
+    if (c.children) return { ...c, children: updateCommandValue(c.children, id, value, expr) };
+    return c;
+  });
+};
+
+// Variable or loop counter name ('' removes a counter)
+export const updateCommandName = (list: Command[], id: string, name: string): Command[] => {
+  return list.map(c => {
+    if (c.id === id) return { ...c, name: name || undefined };
+    if (c.children) return { ...c, children: updateCommandName(c.children, id, name) };
+    return c;
+  });
+};
+
+export const updateCommandCondition = (list: Command[], id: string, condition: Condition): Command[] => {
+  return list.map(c => {
+    if (c.id === id) return { ...c, condition };
+    if (c.children) return { ...c, children: updateCommandCondition(c.children, id, condition) };
+    return c;
+  });
+};
+
+export const insertCommand = (list: Command[], parentId: string | null, index: number, cmd: Command): Command[] => {
+  return updateTree(list, parentId, (items) => [...items.slice(0, index), cmd, ...items.slice(index)]);
+};
+
+// Move a command to position `index` of a container. The index refers to the
+// target list as it is before the move, like a drop position in the timeline.
+export const moveCommand = (list: Command[], id: string, parentId: string | null, index: number): Command[] => {
+  const cmd = findCommand(list, id);
+  const from = findLocation(list, id);
+  if (!cmd || !from) return list;
+
+  // A loop or procedure can't go inside itself
+  if (parentId !== null && (parentId === id || findCommand(cmd.children || [], parentId))) return list;
+
+  let targetIndex = index;
+  if (from.parentId === parentId) {
+    if (index === from.index || index === from.index + 1) return list; // Same place
+    if (from.index < index) targetIndex--;
+  }
+  return insertCommand(removeCommand(list, id), parentId, targetIndex, cmd);
+};
+
+// Keyboard alternative to drag and drop:
+// left/right swap with a neighbour, in = into the adjacent loop or procedure, out = after the enclosing one
+export const moveCommandWithKeyboard = (list: Command[], id: string, move: KeyboardMove): Command[] => {
+  const from = findLocation(list, id);
+  if (!from) return list;
+
+  const siblings = from.parentId === null ? list : findCommand(list, from.parentId)?.children || [];
+
+  switch (move) {
+    case 'left':
+      return from.index > 0 ? moveCommand(list, id, from.parentId, from.index - 1) : list;
+
+    case 'right':
+      return from.index < siblings.length - 1 ? moveCommand(list, id, from.parentId, from.index + 2) : list;
+
+    case 'in': {
+      // Prefer the body just before, appending at its end; otherwise the body just after, at its start
+      const before = siblings[from.index - 1];
+      if (before && hasBody(before.type)) {
+        return moveCommand(list, id, before.id, before.children?.length || 0);
+      }
+      const after = siblings[from.index + 1];
+      if (after && hasBody(after.type)) {
+        return moveCommand(list, id, after.id, 0);
+      }
+      return list;
+    }
+
+    case 'out': {
+      if (from.parentId === null) return list;
+      const loop = findLocation(list, from.parentId);
+      if (!loop) return list;
+      return moveCommand(list, id, loop.parentId, loop.index + 1);
+    }
+  }
+};
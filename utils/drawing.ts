@@ -0,0 +1,145 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Canvas drawing shared by the board, thumbnails and exports,
+// so every picture of a program looks exactly like the board.
+
+import { BoardLayout, BoardSettings, BoardSize, PathSegment, Point } from '../types';
+import { GRID_SIZE, COLORS } from '../constants';
+import { DEFAULT_BOARD_SETTINGS } from './board';
+import { getCellCenter, getWallEnds } from './maze';
+
+export const BOARD_BACKGROUND = { light: '#ffffff', dark: '#1e293b' };
+export const START_MARKER = { color: '#10b981', radius: 4 };
+export const TARGET_STYLE = { light: 'rgba(100, 116, 139, 0.35)', dark: 'rgba(148, 163, 184, 0.35)', width: 10 };
+export const ROBOT_SIZE = 64; // Pixels on the default board
+export const MAZE_STYLE = {
+  blocked: { light: '#94a3b8', dark: '#475569' },
+  wall: { light: '#334155', dark: '#e2e8f0', width: 6 },
+  goal: { fill: 'rgba(16, 185, 129, 0.25)', stroke: '#10b981', width: 3 },
+};
+
+// Radius of the ring marking a goal cell
+export const getGoalRadius = (cellSize: number) => cellSize * 0.3;
+
+// The robot shrinks with small cells so it doesn't hide the drawing
+export const getRobotSize = (cellSize: number) => {
+  return Math.max(24, Math.round(ROBOT_SIZE * Math.min(1, cellSize / GRID_SIZE)));
+};
+
+export const drawBackground = (ctx: CanvasRenderingContext2D, isDarkMode: boolean, board: BoardSize) => {
+  ctx.fillStyle = isDarkMode ? BOARD_BACKGROUND.dark : BOARD_BACKGROUND.light;
+  ctx.fillRect(0, 0, board.width, board.height);
+};
+
+export const drawGrid = (ctx: CanvasRenderingContext2D, isDarkMode: boolean, board: BoardSize) => {
+  ctx.strokeStyle = isDarkMode ? COLORS.gridDark : COLORS.grid;
+  ctx.lineWidth = 1;
+
+  for (let x = 0; x <= board.width; x += board.cellSize) {
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, board.height);
+    ctx.stroke();
+  }
+  for (let y = 0; y <= board.height; y += board.cellSize) {
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(board.width, y);
+    ctx.stroke();
+  }
+};
+
+// Blocked cells, goals and walls, over the grid and under the drawing
+export const drawLayout = (ctx: CanvasRenderingContext2D, layout: BoardLayout, isDarkMode: boolean, cellSize: number) => {
+  ctx.fillStyle = isDarkMode ? MAZE_STYLE.blocked.dark : MAZE_STYLE.blocked.light;
+  for (const cell of layout.blocked) {
+    ctx.fillRect(cell.column * cellSize, cell.row * cellSize, cellSize, cellSize);
+  }
+
+  for (const goal of layout.goals) {
+    ctx.fillStyle = MAZE_STYLE.goal.fill;
+    ctx.fillRect(goal.column * cellSize, goal.row * cellSize, cellSize, cellSize);
+    const center = getCellCenter(goal, cellSize);
+    ctx.strokeStyle = MAZE_STYLE.goal.stroke;
+    ctx.lineWidth = MAZE_STYLE.goal.width;
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, getGoalRadius(cellSize), 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  ctx.lineCap = 'round';
+  ctx.strokeStyle = isDarkMode ? MAZE_STYLE.wall.dark : MAZE_STYLE.wall.light;
+  ctx.lineWidth = MAZE_STYLE.wall.width;
+  for (const wall of layout.walls) {
+    const [from, to] = getWallEnds(wall, cellSize);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  }
+};
+
+// Each segment with its own style, pen-up moves leave gaps
+export const drawPath = (ctx: CanvasRenderingContext2D, path: PathSegment[]) => {
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (const segment of path) {
+    const points = segment.points;
+    if (points.length < 2) continue;
+    ctx.strokeStyle = segment.color;
+    ctx.lineWidth = segment.width;
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+
+    for (let i = 1; i < points.length; i++) {
+      ctx.lineTo(points[i].x, points[i].y);
+    }
+    ctx.stroke();
+  }
+
+  // Start dot
+  if (path.length > 0 && path[0].points.length > 0) {
+    ctx.fillStyle = START_MARKER.color;
+    ctx.beginPath();
+    ctx.arc(path[0].points[0].x, path[0].points[0].y, START_MARKER.radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+// Faint, wide lines under the drawing showing the figure of a challenge
+export const drawTarget = (ctx: CanvasRenderingContext2D, target: Point[][], isDarkMode: boolean) => {
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = isDarkMode ? TARGET_STYLE.dark : TARGET_STYLE.light;
+  ctx.lineWidth = TARGET_STYLE.width;
+  for (const points of target) {
+    if (points.length < 2) continue;
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    for (let i = 1; i < points.length; i++) {
+      ctx.lineTo(points[i].x, points[i].y);
+    }
+    ctx.stroke();
+  }
+};
+
+// Small PNG preview of a drawing, used for project thumbnails
+export const renderThumbnail = (path: PathSegment[], board: BoardSettings = DEFAULT_BOARD_SETTINGS, width = 160): string => {
+  const scale = width / board.width;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round(board.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  ctx.scale(scale, scale);
+  drawBackground(ctx, false, board);
+  drawGrid(ctx, false, board);
+  drawLayout(ctx, board.layout, false, board.cellSize);
+  drawPath(ctx, path);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,37 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Drive mode: the robot is moved by hand and every move is recorded at the end of the
+// main sequence, merging repeated moves (three FORWARD 1 become FORWARD 3).
+
+import { BoardSettings, Command, CommandType } from '../types';
+import { createCommand, getDefaultValue } from './commandTree';
+import { getUnitLength, settle } from './units';
+import { VALUE_RANGES, isInRange } from './valueRanges';
+
+export const DRIVE_COMMANDS = [CommandType.FORWARD, CommandType.BACKWARD, CommandType.TURN_LEFT, CommandType.TURN_RIGHT, CommandType.PEN_UP, CommandType.PEN_DOWN];
+
+// One grid cell when it is a whole number of board units (1 cell, 40 px), otherwise one
+// unit (1 cm), so the robot moves exactly by the recorded value. A rounded cell such as
+// 1.058333 cm would draw 39.99998 px and drift off the grid. Turns use the usual value.
+export const getDriveValue = (type: CommandType, board: BoardSettings) => {
+  if (type !== CommandType.FORWARD && type !== CommandType.BACKWARD) return getDefaultValue(type);
+  const perCell = board.cellSize / getUnitLength(board.unit, board.cellSize);
+  return Number.isInteger(perCell) ? perCell : 1;
+};
+
+// Moves add up with the last block when it is the same plain move and the total stays
+// in range. The pen only records changes: penDown is its state at the end of the program.
+export const recordMove = (commands: Command[], type: CommandType, value: number, penDown: boolean): Command[] => {
+  if (type === CommandType.PEN_UP || type === CommandType.PEN_DOWN) {
+    return penDown === (type === CommandType.PEN_DOWN) ? commands : [...commands, createCommand(type, value)];
+  }
+  const last = commands[commands.length - 1];
+  if (last?.type !== type || last.expr) return [...commands, createCommand(type, value)];
+  const total = last.value + value;
+  if (!isInRange(total, VALUE_RANGES[type])) return [...commands, createCommand(type, value)];
+  return [...commands.slice(0, -1), { ...last, value: settle(total) }];
+};
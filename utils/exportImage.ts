@@ -0,0 +1,132 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// PNG and SVG export of the board drawing.
+// PNG reuses the board canvas drawing, SVG is built straight from the path data.
+
+import { BoardSettings, PathSegment, RobotState } from '../types';
+import { COLORS } from '../constants';
+import { drawBackground, drawGrid, drawLayout, drawPath, getGoalRadius, getRobotSize, BOARD_BACKGROUND, MAZE_STYLE, START_MARKER } from './drawing';
+import { getCellCenter, getWallEnds } from './maze';
+
+export interface ImageExportOptions {
+  path: PathSegment[];
+  robotState: RobotState;
+  board: BoardSettings; // The maze is always included, it is part of the exercise
+  robotSvg?: SVGSVGElement | null; // The robot as rendered on the board
+  includeGrid: boolean;
+  includeRobot: boolean;
+  isDarkMode: boolean;
+}
+
+// Standalone copy of the robot markup, sized for drawing
+const serializeRobot = (svg: SVGSVGElement, size: number): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(size));
+  clone.setAttribute('height', String(size));
+  clone.removeAttribute('class');
+  return new XMLSerializer().serializeToString(clone);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+};
+
+export const exportPng = async (options: ImageExportOptions): Promise<Blob | null> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = options.board.width;
+  canvas.height = options.board.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  drawBackground(ctx, options.isDarkMode, options.board);
+  if (options.includeGrid) drawGrid(ctx, options.isDarkMode, options.board);
+  drawLayout(ctx, options.board.layout, options.isDarkMode, options.board.cellSize);
+  drawPath(ctx, options.path);
+
+  if (options.includeRobot && options.robotSvg) {
+    const size = getRobotSize(options.board.cellSize);
+    const markup = serializeRobot(options.robotSvg, size);
+    const robot = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`);
+    const { x, y, angle } = options.robotState;
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(((angle + 90) * Math.PI) / 180); // The robot drawing faces up
+    ctx.drawImage(robot, -size / 2, -size / 2, size, size);
+    ctx.restore();
+  }
+
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+};
+
+// Keep files small without visible loss
+const fmt = (n: number) => String(Math.round(n * 100) / 100);
+
+export const exportSvg = (options: ImageExportOptions): string => {
+  const { width, height, cellSize, layout } = options.board;
+  const parts: string[] = [];
+
+  // Same as drawBackground, the board always has one
+  const background = options.isDarkMode ? BOARD_BACKGROUND.dark : BOARD_BACKGROUND.light;
+  parts.push(`<rect width="${width}" height="${height}" fill="${background}"/>`);
+
+  if (options.includeGrid) {
+    const gridColor = options.isDarkMode ? COLORS.gridDark : COLORS.grid;
+    const lines: string[] = [];
+    for (let x = 0; x <= width; x += cellSize) lines.push(`M${x} 0V${height}`);
+    for (let y = 0; y <= height; y += cellSize) lines.push(`M0 ${y}H${width}`);
+    parts.push(`<path d="${lines.join('')}" stroke="${gridColor}" stroke-width="1" fill="none"/>`);
+  }
+
+  // Same styling as drawLayout
+  const blockedColor = options.isDarkMode ? MAZE_STYLE.blocked.dark : MAZE_STYLE.blocked.light;
+  for (const cell of layout.blocked) {
+    parts.push(`<rect x="${cell.column * cellSize}" y="${cell.row * cellSize}" width="${cellSize}" height="${cellSize}" fill="${blockedColor}"/>`);
+  }
+  for (const goal of layout.goals) {
+    const center = getCellCenter(goal, cellSize);
+    parts.push(`<rect x="${goal.column * cellSize}" y="${goal.row * cellSize}" width="${cellSize}" height="${cellSize}" fill="${MAZE_STYLE.goal.fill}"/>`);
+    parts.push(`<circle cx="${fmt(center.x)}" cy="${fmt(center.y)}" r="${fmt(getGoalRadius(cellSize))}" fill="none" stroke="${MAZE_STYLE.goal.stroke}" stroke-width="${MAZE_STYLE.goal.width}"/>`);
+  }
+  if (layout.walls.length > 0) {
+    const wallColor = options.isDarkMode ? MAZE_STYLE.wall.dark : MAZE_STYLE.wall.light;
+    const lines = layout.walls.map(wall => {
+      const [from, to] = getWallEnds(wall, cellSize);
+      return `M${from.x} ${from.y}L${to.x} ${to.y}`;
+    });
+    parts.push(`<path d="${lines.join('')}" stroke="${wallColor}" stroke-width="${MAZE_STYLE.wall.width}" stroke-linecap="round" fill="none"/>`);
+  }
+
+  // Same styling as drawPath: one polyline per segment, round caps and joins
+  for (const segment of options.path) {
+    if (segment.points.length < 2) continue;
+    const points = segment.points.map(p => `${fmt(p.x)},${fmt(p.y)}`).join(' ');
+    parts.push(`<polyline points="${points}" fill="none" stroke="${segment.color}" stroke-width="${segment.width}" stroke-linecap="round" stroke-linejoin="round"/>`);
+  }
+
+  const start = options.path[0]?.points[0];
+  if (start) {
+    parts.push(`<circle cx="${fmt(start.x)}" cy="${fmt(start.y)}" r="${START_MARKER.radius}" fill="${START_MARKER.color}"/>`);
+  }
+
+  if (options.includeRobot && options.robotSvg) {
+    const { x, y, angle } = options.robotState;
+    const size = getRobotSize(cellSize);
+    parts.push(`<g transform="translate(${fmt(x)} ${fmt(y)}) rotate(${fmt(angle + 90)}) translate(${-size / 2} ${-size / 2})">${serializeRobot(options.robotSvg, size)}</g>`);
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ...parts.map(part => `  ${part}`),
+    '</svg>',
+  ].join('\n');
+};
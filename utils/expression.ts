@@ -0,0 +1,133 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Arithmetic expressions in block values, e.g. `side * 2` or `360 / n`.
+// Supports numbers, names, + - * / %, unary minus and parentheses.
+// A leading colon on names (`:side`, Logo style) is accepted and ignored.
+
+// Letters (any language), digits and underscores, not starting with a digit
+const NAME_PATTERN = /^[\p{L}_][\p{L}\p{N}_]*$/u;
+
+export const isValidName = (name: string) => NAME_PATTERN.test(name);
+
+export type Expression =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; name: string }
+  | { kind: 'negate'; operand: Expression }
+  | { kind: 'binary'; operator: string; left: Expression; right: Expression };
+
+export interface ExpressionError {
+  key: string; // Translation key for the message
+  token?: string; // Offending text or name, if any
+}
+
+export interface ExpressionResult {
+  expression?: Expression; // Missing when there is an error
+  error?: ExpressionError;
+}
+
+interface ExpressionToken {
+  type: 'number' | 'name' | 'operator' | 'open' | 'close';
+  text: string;
+}
+
+const tokenize = (source: string): ExpressionToken[] => {
+  const tokens: ExpressionToken[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d+)?)|:?([\p{L}_][\p{L}\p{N}_]*)|([+\-*/%])|(\()|(\))|(\S))/uy;
+  let match: RegExpExecArray | null;
+
+  while (pattern.lastIndex < source.length && (match = pattern.exec(source))) {
+    const [, number, name, operator, open, close, other] = match;
+    if (number !== undefined) tokens.push({ type: 'number', text: number });
+    else if (name !== undefined) tokens.push({ type: 'name', text: name });
+    else if (operator !== undefined) tokens.push({ type: 'operator', text: operator });
+    else if (open !== undefined) tokens.push({ type: 'open', text: open });
+    else if (close !== undefined) tokens.push({ type: 'close', text: close });
+    else if (other !== undefined) throw { key: 'expr_unexpected', token: other };
+  }
+  return tokens;
+};
+
+// Recursive descent: sum := product (('+'|'-') product)*, product := unary (('*'|'/'|'%') unary)*
+export const parseExpression = (source: string): ExpressionResult => {
+  try {
+    const tokens = tokenize(source);
+    let pos = 0;
+
+    const parseUnary = (): Expression => {
+      const token = tokens[pos];
+      if (!token) throw { key: 'expr_incomplete' };
+      pos++;
+
+      if (token.type === 'operator' && token.text === '-') return { kind: 'negate', operand: parseUnary() };
+      if (token.type === 'number') return { kind: 'number', value: parseFloat(token.text) };
+      if (token.type === 'name') return { kind: 'name', name: token.text };
+      if (token.type === 'open') {
+        const inner = parseSum();
+        if (tokens[pos]?.type !== 'close') throw { key: 'expr_unclosed_parenthesis' };
+        pos++;
+        return inner;
+      }
+      throw { key: 'expr_unexpected', token: token.text };
+    };
+
+    const parseBinary = (operators: string[], parseOperand: () => Expression) => (): Expression => {
+      let left = parseOperand();
+      while (tokens[pos]?.type === 'operator' && operators.includes(tokens[pos].text)) {
+        const operator = tokens[pos++].text;
+        left = { kind: 'binary', operator, left, right: parseOperand() };
+      }
+      return left;
+    };
+
+    const parseProduct = parseBinary(['*', '/', '%'], parseUnary);
+    const parseSum: () => Expression = parseBinary(['+', '-'], parseProduct);
+
+    const expression = parseSum();
+    if (pos < tokens.length) throw { key: 'expr_unexpected', token: tokens[pos].text };
+    return { expression };
+  } catch (error) {
+    return { error: error as ExpressionError };
+  }
+};
+
+// Throws an ExpressionError for unknown names and divisions by zero
+export const evaluateExpression = (expression: Expression, lookup: (name: string) => number | undefined): number => {
+  switch (expression.kind) {
+    case 'number':
+      return expression.value;
+
+    case 'name': {
+      const value = lookup(expression.name);
+      if (value === undefined) throw { key: 'error_undefined_variable', token: expression.name };
+      return value;
+    }
+
+    case 'negate':
+      return -evaluateExpression(expression.operand, lookup);
+
+    case 'binary': {
+      const left = evaluateExpression(expression.left, lookup);
+      const right = evaluateExpression(expression.right, lookup);
+      switch (expression.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        default:
+          if (right === 0) throw { key: 'error_division_by_zero' };
+          return expression.operator === '/' ? left / right : left % right;
+      }
+    }
+  }
+};
+
+// Plain numbers are stored as values, anything else as an expression
+export const isPlainNumber = (source: string) => /^\s*-?\d+(\.\d+)?\s*$/.test(source);
+
+// Rename a variable everywhere in an expression, keeping the rest of the text as written
+export const renameInExpression = (source: string, from: string, to: string): string => {
+  return source.replace(/(:?)([\p{L}_][\p{L}\p{N}_]*)/gu, (whole, colon, name) => name === from ? `${colon}${to}` : whole);
+};
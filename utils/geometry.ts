@@ -0,0 +1,184 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Geometry of a finished run: how far the robot went and, when the drawing is a closed
+// shape, its perimeter, area, angles and name. Lengths are in the program's distance unit
+// (see units), angles in degrees.
+
+import { PathSegment, Point, RobotState } from '../types';
+import { ExecutionTrace } from './interpreter';
+
+export interface PolygonInfo {
+  sides: number[]; // Length of each side, starting at the first corner drawn
+  angles: number[]; // Interior angle at each corner
+  perimeter: number;
+  area?: number; // Missing when sides cross each other (e.g. a star)
+  shape: string; // Suffix of the shape_ translation key, e.g. 'square' or 'regular_hexagon'
+}
+
+export interface PathAnalysis {
+  distance: number; // Travelled, pen up or down
+  turning: number; // Turned in total, right positive
+  lines: number; // Separate drawn lines (0 = nothing drawn)
+  closed: boolean; // The drawing is one line ending where it starts, around at least three corners
+  gap: number; // From the end of a single line back to its start, 0 when closed
+  turnGap: number; // Degrees short of (negative) or over the nearest whole number of full turns, 0 under half a turn
+  polygon?: PolygonInfo; // Closed drawings with at least 3 corners
+}
+
+const POINT_TOLERANCE = 0.5; // Pixels, like the sensors
+const LENGTH_TOLERANCE = 0.01; // Relative to the longest side
+const ANGLE_TOLERANCE = 0.5; // Degrees
+
+const POLYGON_NAMES: Record<number, string> = { 5: 'pentagon', 6: 'hexagon', 7: 'heptagon', 8: 'octagon' };
+
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+const isSamePoint = (a: Point, b: Point) => distance(a, b) < POINT_TOLERANCE;
+// Side of the line o -> a where b lies: 1, -1 or 0 (on it, within rounding noise)
+const side = (o: Point, a: Point, b: Point) => {
+  const cross = (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  return Math.abs(cross) < 1e-9 ? 0 : Math.sign(cross);
+};
+
+// Signed turn from the direction a -> b to b -> c, -180 to 180. Positive turns right on screen
+const turnAt = (a: Point, b: Point, c: Point) => {
+  const e1 = { x: b.x - a.x, y: b.y - a.y };
+  const e2 = { x: c.x - b.x, y: c.y - b.y };
+  return toDeg(Math.atan2(e1.x * e2.y - e1.y * e2.x, e1.x * e2.x + e1.y * e2.y));
+};
+
+// Drawn lines, joining segments that only changed pen style on the way
+const getLines = (segments: PathSegment[]): Point[][] => {
+  const lines: Point[][] = [];
+  for (const { points } of segments) {
+    if (points.length < 2) continue;
+    const last = lines[lines.length - 1];
+    if (last && isSamePoint(last[last.length - 1], points[0])) last.push(...points.slice(1));
+    else lines.push([...points]);
+  }
+  return lines;
+};
+
+// Corners of a closed line: no repeated points and no points in the middle of a straight side
+const getCorners = (points: Point[]): Point[] => {
+  const corners = points.filter((point, i) => i === 0 || !isSamePoint(point, points[i - 1]));
+  if (corners.length > 1 && isSamePoint(corners[0], corners[corners.length - 1])) corners.pop();
+  let changed = true;
+  while (changed && corners.length > 2) {
+    changed = false;
+    for (let i = 0; i < corners.length; i++) {
+      const previous = corners[(i - 1 + corners.length) % corners.length];
+      const next = corners[(i + 1) % corners.length];
+      if (Math.abs(turnAt(previous, corners[i], next)) < ANGLE_TOLERANCE) {
+        corners.splice(i, 1);
+        changed = true;
+        break;
+      }
+    }
+  }
+  return corners;
+};
+
+const overlaps = (a1: number, a2: number, b1: number, b2: number) => {
+  return Math.max(Math.min(a1, a2), Math.min(b1, b2)) <= Math.min(Math.max(a1, a2), Math.max(b1, b2));
+};
+
+const segmentsCross = (a: Point, b: Point, c: Point, d: Point) => {
+  const d1 = side(c, d, a);
+  const d2 = side(c, d, b);
+  const d3 = side(a, b, c);
+  const d4 = side(a, b, d);
+  // On the same line they only meet if they overlap
+  if (d1 === 0 && d2 === 0) return overlaps(a.x, b.x, c.x, d.x) && overlaps(a.y, b.y, c.y, d.y);
+  return d1 * d2 <= 0 && d3 * d4 <= 0;
+};
+
+// No two sides cross or touch, apart from neighbours sharing a corner
+const isSimple = (corners: Point[]) => {
+  const n = corners.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue;
+      if (segmentsCross(corners[i], corners[(i + 1) % n], corners[j], corners[(j + 1) % n])) return false;
+    }
+  }
+  return true;
+};
+
+const allEqual = (values: number[], tolerance: number) => values.every(value => Math.abs(value - values[0]) <= tolerance);
+const isRight = (angle: number) => Math.abs(angle - 90) <= ANGLE_TOLERANCE;
+
+const getShapeName = (sides: number[], angles: number[], simple: boolean) => {
+  const tolerance = LENGTH_TOLERANCE * Math.max(...sides);
+  const equalSides = allEqual(sides, tolerance);
+  const equalAngles = allEqual(angles, ANGLE_TOLERANCE);
+  if (!simple) return equalSides && equalAngles ? 'star' : 'crossed';
+
+  if (sides.length === 3) {
+    if (equalSides) return 'equilateral_triangle';
+    if (angles.some(isRight)) return 'right_triangle';
+    const [a, b, c] = sides;
+    if ([a - b, b - c, c - a].some(difference => Math.abs(difference) <= tolerance)) return 'isosceles_triangle';
+    return 'triangle';
+  }
+  if (sides.length === 4) {
+    const rightAngles = angles.every(isRight);
+    if (rightAngles && equalSides) return 'square';
+    if (rightAngles) return 'rectangle';
+    if (equalSides) return 'rhombus';
+    const [a, b, c, d] = sides;
+    if (Math.abs(a - c) <= tolerance && Math.abs(b - d) <= tolerance) return 'parallelogram';
+    return 'quadrilateral';
+  }
+  const name = POLYGON_NAMES[sides.length] ?? 'polygon';
+  return equalSides && equalAngles ? `regular_${name}` : name;
+};
+
+const analyzePolygon = (corners: Point[], unitLength: number): PolygonInfo => {
+  const n = corners.length;
+  const scaled = corners.map(p => ({ x: p.x / unitLength, y: p.y / unitLength }));
+  const sides = scaled.map((p, i) => distance(p, scaled[(i + 1) % n]));
+  // Shoelace formula, positive when drawn clockwise on screen (turning right)
+  const signedArea = scaled.reduce((sum, p, i) => sum + p.x * scaled[(i + 1) % n].y - scaled[(i + 1) % n].x * p.y, 0) / 2;
+  const simple = isSimple(scaled);
+  const orientation = Math.sign(signedArea) || 1;
+  const angles = scaled.map((p, i) => {
+    const turn = turnAt(scaled[(i - 1 + n) % n], p, scaled[(i + 1) % n]);
+    // Crossed shapes have no inside, so take the angle between the sides
+    return simple ? 180 - turn * orientation : 180 - Math.abs(turn);
+  });
+  return {
+    sides,
+    angles,
+    perimeter: sides.reduce((sum, side) => sum + side, 0),
+    ...(simple ? { area: Math.abs(signedArea) } : {}),
+    shape: getShapeName(sides, angles, simple),
+  };
+};
+
+// unitLength: board pixels per distance unit (see getUnitLength)
+export const analyzeRun = (trace: ExecutionTrace, start: RobotState, unitLength: number): PathAnalysis => {
+  const lines = getLines(trace.segments);
+  const turning = trace.finalState.angle - start.angle;
+  // Less than half a turn is a line not meant to close, not one a full turn short
+  const fullTurns = 360 * Math.round(Math.abs(turning) / 360);
+  const single = lines.length === 1 ? lines[0] : null;
+  const looped = single !== null && single.length > 2 && isSamePoint(single[0], single[single.length - 1]);
+  const corners = looped ? getCorners(single) : [];
+  // Going there and back (FORWARD 3 BACKWARD 3) ends on the start but encloses nothing
+  const closed = corners.length >= 3;
+
+  return {
+    distance: trace.distance / unitLength,
+    turning,
+    lines: lines.length,
+    closed,
+    gap: single && !closed ? distance(single[0], single[single.length - 1]) / unitLength : 0,
+    turnGap: fullTurns > 0 ? Math.abs(turning) - fullTurns : 0,
+    ...(closed ? { polygon: analyzePolygon(corners, unitLength) } : {}),
+  };
+};
@@ -0,0 +1,51 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Immutable undo/redo stack
+
+import { MAX_HISTORY } from '../constants';
+
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  mergeKey?: string; // Key of the last edit, see pushHistory
+}
+
+export const createHistory = <T>(present: T): History<T> => ({ past: [], present, future: [] });
+
+// Record a new present. Consecutive edits with the same mergeKey (e.g. typing
+// digits in one block) collapse into a single undo step.
+export const pushHistory = <T>(history: History<T>, next: T, mergeKey?: string): History<T> => {
+  if (next === history.present) return history;
+  if (mergeKey && mergeKey === history.mergeKey) {
+    return { ...history, present: next, future: [] };
+  }
+  return {
+    past: [...history.past, history.present].slice(-MAX_HISTORY),
+    present: next,
+    future: [],
+    mergeKey,
+  };
+};
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
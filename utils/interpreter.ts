@@ -0,0 +1,401 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Pure execution engine: runs a program synchronously and records every step.
+// The UI only animates the resulting trace, so this module has no React, timers or sound.
+
+import { Command, CommandType, RobotState, PathSegment, EdgeMode } from '../types';
+import {
+  START_X,
+  START_Y,
+  START_ANGLE,
+  PEN_COLORS,
+  DEFAULT_PEN_COLOR,
+  DEFAULT_PEN_WIDTH,
+  MAX_EXECUTION_STEPS,
+  MAX_CALL_DEPTH
+} from '../constants';
+import { collectProcedures } from './procedures';
+import { Expression, ExpressionError, parseExpression, evaluateExpression } from './expression';
+import { Board, DEFAULT_BOARD, evaluateCondition } from './sensors';
+import { findObstacle } from './maze';
+import { getUnitLength, settle, toRad } from './units';
+import { VALUE_RANGES, ARGUMENT_RANGE, ValueRange, isInRange } from './valueRanges';
+
+// An active REPEAT while a step runs (iteration is 1-based)
+export interface LoopFrame {
+  commandId: string;
+  iteration: number;
+  total: number;
+}
+
+// One executed command and the robot state right after it
+export interface TraceStep {
+  command: Command;
+  state: RobotState;
+  loops: LoopFrame[]; // Enclosing loops, outermost first
+  // How much of the drawing exists after this step (see getPathAtStep)
+  segmentCount: number;
+  pointCount: number; // Points in the last visible segment
+}
+
+export interface ExecutionError {
+  key: string; // Translation key for the message
+  commandId?: string; // Offending block, if any
+  token?: string; // Offending name, if any
+}
+
+export interface ExecutionTrace {
+  steps: TraceStep[];
+  segments: PathSegment[]; // Final drawing
+  finalState: RobotState;
+  distance: number; // Pixels driven, pen up or down (a wrap around the board is not driving)
+  error?: ExecutionError; // Execution halted early
+}
+
+export const INITIAL_ROBOT_STATE: RobotState = {
+  x: START_X,
+  y: START_Y,
+  angle: START_ANGLE,
+  penDown: true,
+  penColor: DEFAULT_PEN_COLOR,
+  penWidth: DEFAULT_PEN_WIDTH,
+};
+
+// Direction components and distances smaller than this are rounding noise from sin/cos
+const TINY = 1e-9;
+const EDGE_TOLERANCE = 1e-6; // Pixels. A move ending right on the edge stays on the board
+
+// Distance along the unit vector (dx, dy) from a point on the board to its side edges (x)
+// and to its top or bottom edge (y)
+const distancesToEdges = (x: number, y: number, dx: number, dy: number, board: Board) => ({
+  x: dx > TINY ? (board.width - x) / dx : dx < -TINY ? -x / dx : Infinity,
+  y: dy > TINY ? (board.height - y) / dy : dy < -TINY ? -y / dy : Infinity,
+});
+
+// Start a new path segment at the robot position using its current pen style
+export const createSegment = (robot: RobotState): PathSegment => ({
+  points: [{ x: robot.x, y: robot.y }],
+  color: robot.penColor,
+  width: robot.penWidth,
+});
+
+export const runProgram = (
+  commands: Command[],
+  initialState: RobotState = INITIAL_ROBOT_STATE,
+  board: Board = DEFAULT_BOARD
+): ExecutionTrace => {
+  const steps: TraceStep[] = [];
+  const segments: PathSegment[] = [createSegment(initialState)];
+  const loops: LoopFrame[] = [];
+  let distance = 0;
+  let error: ExecutionError | undefined;
+  // Loop passes that recorded no step (e.g. REPEAT 1000000 [ ]) and wraps around the board
+  // edges (e.g. FORWARD 1000000) count toward the step limit too
+  let idlePasses = 0;
+  let wraps = 0;
+
+  // Guard against runaway programs like REPEAT 100000
+  const isOverLimit = () => steps.length + idlePasses + wraps >= MAX_EXECUTION_STEPS;
+
+  // Procedures can be called before their DEFINE block, so collect them all first
+  const procedures = new Map<string, Command>();
+  for (const define of collectProcedures(commands)) {
+    if (!define.name) continue;
+    if (procedures.has(define.name)) {
+      error = { key: 'error_duplicate_procedure', commandId: define.id };
+    }
+    procedures.set(define.name, define);
+  }
+
+  // Variables. Each procedure call sees its own parameters and loop counters
+  // (innermost scope last) and then the global variables set at any level.
+  const globals: Record<string, number> = {};
+  const callStack: Record<string, number>[][] = [[]];
+  const currentScopes = () => callStack[callStack.length - 1];
+
+  const findScope = (name: string): Record<string, number> | undefined => {
+    const scopes = currentScopes();
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      if (name in scopes[i]) return scopes[i];
+    }
+    return name in globals ? globals : undefined;
+  };
+
+  // Latest result of each IF, read by the ELSE that follows it
+  const conditionResults = new Map<string, boolean>();
+
+  // Each expression text is parsed once per run
+  const parsed = new Map<string, { expression?: Expression; error?: ExpressionError }>();
+
+  // Value of a number or expression; undefined (and an error) if it can't be computed
+  // or falls outside the range the block editors allow
+  const resolve = (value: number, expr: string | undefined, commandId: string, range: ValueRange): number | undefined => {
+    let result = value;
+    if (expr) {
+      if (!parsed.has(expr)) parsed.set(expr, parseExpression(expr));
+      const { expression, error: parseError } = parsed.get(expr);
+      try {
+        if (parseError) throw parseError;
+        result = evaluateExpression(expression, name => findScope(name)?.[name]);
+      } catch (evaluationError) {
+        const { key, token } = evaluationError as ExpressionError;
+        error = { key, commandId, token };
+        return undefined;
+      }
+    }
+    if (!isInRange(result, range)) {
+      error = { key: 'value_out_of_range', commandId, token: String(result) };
+      return undefined;
+    }
+    return result;
+  };
+
+  // Straight move of the given length (negative = backwards), drawing as it goes.
+  // At the edge of the board the robot stops, stops with an error or wraps around.
+  // A wall or a blocked cell always stops it with a crash.
+  const drive = (cmd: Command, robot: RobotState, length: number): RobotState => {
+    const direction = Math.sign(length);
+    const dx = Math.cos(toRad(robot.angle)) * direction;
+    const dy = Math.sin(toRad(robot.angle)) * direction;
+    let { x, y } = robot;
+    let remaining = Math.abs(length);
+
+    const lineTo = () => {
+      if (robot.penDown) segments[segments.length - 1].points.push({ x, y });
+    };
+
+    while (remaining > 0) {
+      const toEdges = distancesToEdges(x, y, dx, dy, board);
+      const toEdge = Math.max(0, Math.min(toEdges.x, toEdges.y));
+      const toObstacle = findObstacle({ x, y }, dx, dy, Math.min(remaining, toEdge), board.layout, board.cellSize);
+      if (toObstacle !== undefined) {
+        x = settle(x + dx * toObstacle);
+        y = settle(y + dy * toObstacle);
+        distance += toObstacle;
+        if (toObstacle > 0) lineTo();
+        error = { key: 'error_crash', commandId: cmd.id };
+        break;
+      }
+      if (remaining <= toEdge + EDGE_TOLERANCE) {
+        x = settle(x + dx * remaining);
+        y = settle(y + dy * remaining);
+        distance += remaining;
+        lineTo();
+        break;
+      }
+
+      // Exactly on the edge (or both edges at a corner)
+      const hitsSide = toEdges.x - toEdge < TINY;
+      const hitsTopOrBottom = toEdges.y - toEdge < TINY;
+      x = hitsSide ? (dx > 0 ? board.width : 0) : settle(x + dx * toEdge);
+      y = hitsTopOrBottom ? (dy > 0 ? board.height : 0) : settle(y + dy * toEdge);
+      remaining -= toEdge;
+      distance += toEdge;
+      if (toEdge > 0) lineTo();
+
+      if (board.edgeMode === EdgeMode.CLAMP) break;
+      if (board.edgeMode === EdgeMode.ERROR) {
+        error = { key: 'error_off_board', commandId: cmd.id };
+        break;
+      }
+
+      if (isOverLimit()) {
+        error = { key: 'error_too_many_steps', commandId: cmd.id };
+        break;
+      }
+      wraps++;
+
+      // Come back in from the opposite side, with a new line so nothing is drawn across the board
+      if (hitsSide) x = dx > 0 ? 0 : board.width;
+      if (hitsTopOrBottom) y = dy > 0 ? 0 : board.height;
+      if (robot.penDown) segments.push(createSegment({ ...robot, x, y }));
+
+      // Along a side, every crossing after the next one draws the same line again
+      const crossing = Math.abs(dy) < TINY ? board.width : Math.abs(dx) < TINY ? board.height : 0;
+      if (crossing > 0 && remaining > 2 * crossing) {
+        const skipped = (Math.floor(remaining / crossing) - 1) * crossing;
+        remaining -= skipped;
+        distance += skipped;
+      }
+    }
+
+    return { ...robot, x, y };
+  };
+
+  const record = (command: Command, state: RobotState) => {
+    steps.push({
+      command,
+      state,
+      loops: loops.map(frame => ({ ...frame })),
+      segmentCount: segments.length,
+      pointCount: segments[segments.length - 1].points.length,
+    });
+  };
+
+  const executeCommand = (cmd: Command, currentRobot: RobotState, previous?: Command): RobotState => {
+    if (isOverLimit()) {
+      error = { key: 'error_too_many_steps', commandId: cmd.id };
+      return currentRobot;
+    }
+
+    const value = resolve(cmd.value, cmd.expr, cmd.id, VALUE_RANGES[cmd.type]);
+    if (value === undefined) return currentRobot;
+
+    let nextRobot = { ...currentRobot };
+
+    switch (cmd.type) {
+      case CommandType.FORWARD:
+      case CommandType.BACKWARD: {
+        const length = value * getUnitLength(board.unit, board.cellSize);
+        const direction = cmd.type === CommandType.FORWARD ? 1 : -1;
+        nextRobot = drive(cmd, nextRobot, length * direction);
+        record(cmd, nextRobot);
+        break;
+      }
+
+      case CommandType.TURN_LEFT:
+      case CommandType.TURN_RIGHT: {
+        const turn = cmd.type === CommandType.TURN_RIGHT ? 1 : -1;
+        nextRobot.angle = settle(nextRobot.angle + value * turn);
+        record(cmd, nextRobot);
+        break;
+      }
+
+      case CommandType.PEN_UP:
+        nextRobot.penDown = false;
+        record(cmd, nextRobot);
+        break;
+
+      case CommandType.PEN_DOWN:
+        if (!nextRobot.penDown) {
+          // Start a new segment at the current position
+          segments.push(createSegment(nextRobot));
+        }
+        nextRobot.penDown = true;
+        record(cmd, nextRobot);
+        break;
+
+      case CommandType.SET_COLOR:
+      case CommandType.SET_WIDTH:
+        if (cmd.type === CommandType.SET_COLOR) {
+          nextRobot.penColor = PEN_COLORS[value] ?? DEFAULT_PEN_COLOR;
+        } else {
+          nextRobot.penWidth = Math.max(1, value);
+        }
+        if (nextRobot.penDown) {
+          // New style, new segment
+          segments.push(createSegment(nextRobot));
+        }
+        record(cmd, nextRobot);
+        break;
+
+      case CommandType.REPEAT:
+        record(cmd, nextRobot);
+        if (cmd.children) {
+          const frame: LoopFrame = { commandId: cmd.id, iteration: 0, total: value };
+          const counter: Record<string, number> = {};
+          loops.push(frame);
+          currentScopes().push(counter);
+          for (let i = 0; i < value; i++) {
+            if (isOverLimit()) {
+              error = { key: 'error_too_many_steps', commandId: cmd.id };
+              break;
+            }
+            frame.iteration = i + 1;
+            if (cmd.name) counter[cmd.name] = i + 1;
+            const stepCount = steps.length;
+            nextRobot = runSequence(cmd.children, nextRobot);
+            if (error) break;
+            if (steps.length === stepCount) idlePasses++;
+          }
+          currentScopes().pop();
+          loops.pop();
+        }
+        break;
+
+      case CommandType.DEFINE:
+        // Only a declaration, its body runs when called
+        break;
+
+      case CommandType.CALL: {
+        const procedure = procedures.get(cmd.name);
+        if (!procedure) {
+          error = { key: 'error_unknown_procedure', commandId: cmd.id };
+          break;
+        }
+        if (callStack.length > MAX_CALL_DEPTH) {
+          error = { key: 'error_call_depth', commandId: cmd.id };
+          break;
+        }
+
+        // Arguments are evaluated in the caller's scope
+        const scope: Record<string, number> = {};
+        const params = procedure.params || [];
+        for (let i = 0; i < params.length; i++) {
+          const arg = cmd.args?.[i] ?? { value: 0 };
+          const argValue = resolve(arg.value, arg.expr, cmd.id, ARGUMENT_RANGE);
+          if (argValue === undefined) return currentRobot;
+          scope[params[i]] = argValue;
+        }
+
+        record(cmd, nextRobot);
+        callStack.push([scope]);
+        nextRobot = runSequence(procedure.children || [], nextRobot);
+        callStack.pop();
+        break;
+      }
+
+      case CommandType.SET_VARIABLE:
+        // Parameters and counters in scope are updated, anything else is global
+        (findScope(cmd.name) ?? globals)[cmd.name] = value;
+        record(cmd, nextRobot);
+        break;
+
+      case CommandType.IF: {
+        const result = evaluateCondition(cmd.condition, value, nextRobot, segments, board);
+        conditionResults.set(cmd.id, result);
+        record(cmd, nextRobot);
+        if (result && cmd.children) nextRobot = runSequence(cmd.children, nextRobot);
+        break;
+      }
+
+      case CommandType.ELSE:
+        if (previous?.type !== CommandType.IF) {
+          error = { key: 'error_else_without_if', commandId: cmd.id };
+          break;
+        }
+        record(cmd, nextRobot);
+        if (!conditionResults.get(previous.id) && cmd.children) nextRobot = runSequence(cmd.children, nextRobot);
+        break;
+    }
+
+    return nextRobot;
+  };
+
+  const runSequence = (sequence: Command[], startState: RobotState): RobotState => {
+    let currentState = startState;
+    for (let i = 0; i < sequence.length; i++) {
+      if (error) break;
+      currentState = executeCommand(sequence[i], currentState, sequence[i - 1]);
+    }
+    return currentState;
+  };
+
+  const finalState = error ? initialState : runSequence(commands, initialState);
+  return { steps, segments, finalState, distance, error };
+};
+
+// Rebuild the drawing as it was right after the given step (-1 = before the first step)
+export const getPathAtStep = (trace: ExecutionTrace, stepIndex: number): PathSegment[] => {
+  const segmentCount = stepIndex < 0 ? 1 : trace.steps[stepIndex].segmentCount;
+  const pointCount = stepIndex < 0 ? 1 : trace.steps[stepIndex].pointCount;
+
+  const visible = trace.segments.slice(0, segmentCount);
+  const last = visible[visible.length - 1];
+  visible[visible.length - 1] = { ...last, points: last.points.slice(0, pointCount) };
+  return visible;
+};
@@ -0,0 +1,146 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Maze geometry: blocked cells, walls and goals on the grid, and collisions with them.
+// Cells and walls are stored in grid units, positions are board pixels.
+
+import { BoardLayout, Cell, Point, Wall } from '../types';
+
+export const EMPTY_LAYOUT: BoardLayout = { blocked: [], walls: [], goals: [] };
+
+// Rounding noise from sin/cos, in pixels
+const TINY = 1e-6;
+
+export const isLayoutEmpty = (layout: BoardLayout) => {
+  return layout.blocked.length === 0 && layout.walls.length === 0 && layout.goals.length === 0;
+};
+
+export const getCellAt = (point: Point, cellSize: number): Cell => ({
+  column: Math.floor(point.x / cellSize),
+  row: Math.floor(point.y / cellSize),
+});
+
+export const getCellCenter = (cell: Cell, cellSize: number): Point => ({
+  x: (cell.column + 0.5) * cellSize,
+  y: (cell.row + 0.5) * cellSize,
+});
+
+export const getWallEnds = (wall: Wall, cellSize: number): [Point, Point] => {
+  const from = { x: wall.column * cellSize, y: wall.row * cellSize };
+  const to = wall.vertical ? { x: from.x, y: from.y + cellSize } : { x: from.x + cellSize, y: from.y };
+  return [from, to];
+};
+
+// Grid line piece closest to a point, e.g. where the user clicked
+export const getNearestWall = (point: Point, cellSize: number): Wall => {
+  const cell = getCellAt(point, cellSize);
+  const offsetX = point.x / cellSize - cell.column; // 0..1 inside the cell
+  const offsetY = point.y / cellSize - cell.row;
+  const distances = [
+    { wall: { ...cell, vertical: false }, distance: offsetY }, // Top
+    { wall: { ...cell, row: cell.row + 1, vertical: false }, distance: 1 - offsetY }, // Bottom
+    { wall: { ...cell, vertical: true }, distance: offsetX }, // Left
+    { wall: { ...cell, column: cell.column + 1, vertical: true }, distance: 1 - offsetX }, // Right
+  ];
+  return distances.reduce((best, candidate) => candidate.distance < best.distance ? candidate : best).wall;
+};
+
+const isSameCell = (a: Cell, b: Cell) => a.column === b.column && a.row === b.row;
+const isSameWall = (a: Wall, b: Wall) => isSameCell(a, b) && a.vertical === b.vertical;
+
+export const hasCell = (list: Cell[], cell: Cell) => list.some(c => isSameCell(c, cell));
+
+export const toggleCell = (list: Cell[], cell: Cell): Cell[] => {
+  return hasCell(list, cell) ? list.filter(c => !isSameCell(c, cell)) : [...list, { column: cell.column, row: cell.row }];
+};
+
+export const toggleWall = (list: Wall[], wall: Wall): Wall[] => {
+  return list.some(w => isSameWall(w, wall)) ? list.filter(w => !isSameWall(w, wall)) : [...list, wall];
+};
+
+// Only what still fits on a board of the given size
+export const fitLayout = (layout: BoardLayout, columns: number, rows: number): BoardLayout => {
+  const isInside = (cell: Cell) => cell.column >= 0 && cell.row >= 0 && cell.column < columns && cell.row < rows;
+  return {
+    blocked: layout.blocked.filter(isInside),
+    walls: layout.walls.filter(wall => wall.column >= 0 && wall.row >= 0
+      && (wall.vertical ? wall.column <= columns && wall.row < rows : wall.column < columns && wall.row <= rows)),
+    goals: layout.goals.filter(isInside),
+  };
+};
+
+// Layout read from a file or link, or undefined when it is malformed or doesn't fit the board
+export const parseLayout = (data: unknown, columns: number, rows: number): BoardLayout | undefined => {
+  if (!data || typeof data !== 'object') return undefined;
+  const { blocked, walls, goals } = data as Partial<BoardLayout>;
+  const isCell = (cell: unknown): cell is Cell => {
+    const { column, row } = (cell || {}) as Partial<Cell>;
+    return Number.isInteger(column) && Number.isInteger(row);
+  };
+  if (![blocked, walls, goals].every(list => Array.isArray(list) && list.every(isCell))) return undefined;
+  if (!walls.every(wall => typeof wall.vertical === 'boolean')) return undefined;
+
+  const layout: BoardLayout = {
+    blocked: blocked.map(({ column, row }) => ({ column, row })),
+    walls: walls.map(({ column, row, vertical }) => ({ column, row, vertical })),
+    goals: goals.map(({ column, row }) => ({ column, row })),
+  };
+  const fitted = fitLayout(layout, columns, rows);
+  const fits = fitted.blocked.length === blocked.length && fitted.walls.length === walls.length && fitted.goals.length === goals.length;
+  return fits ? layout : undefined;
+};
+
+// Distance along the unit vector (dx, dy) to where a segment is crossed, or Infinity.
+// Touching the end of a wall counts, sliding along it doesn't.
+const distanceToSegment = (from: Point, dx: number, dy: number, a: Point, b: Point) => {
+  const ex = b.x - a.x;
+  const ey = b.y - a.y;
+  const denominator = dx * ey - dy * ex;
+  if (Math.abs(denominator) < 1e-9) return Infinity;
+  const t = ((a.x - from.x) * ey - (a.y - from.y) * ex) / denominator;
+  const s = ((a.x - from.x) * dy - (a.y - from.y) * dx) / denominator;
+  return t > TINY && s >= -1e-9 && s <= 1 + 1e-9 ? t : Infinity;
+};
+
+// Distance along (dx, dy) to where a cell is entered, or Infinity. Moving along its border
+// or leaving it (e.g. starting inside) is not entering it.
+const distanceToCell = (from: Point, dx: number, dy: number, cell: Cell, cellSize: number) => {
+  let enter = -Infinity;
+  let exit = Infinity;
+  const slabs = [
+    { position: from.x, direction: dx, min: cell.column * cellSize },
+    { position: from.y, direction: dy, min: cell.row * cellSize },
+  ];
+  for (const { position, direction, min } of slabs) {
+    const max = min + cellSize;
+    if (Math.abs(direction) < 1e-9) {
+      if (position <= min + TINY || position >= max - TINY) return Infinity;
+      continue;
+    }
+    const t1 = (min - position) / direction;
+    const t2 = (max - position) / direction;
+    enter = Math.max(enter, Math.min(t1, t2));
+    exit = Math.min(exit, Math.max(t1, t2));
+  }
+  return enter >= -TINY && exit - enter > TINY ? Math.max(0, enter) : Infinity;
+};
+
+// Where a move of the given length from a point along (dx, dy) is stopped, as a distance
+// from the point, or undefined when nothing is in the way. Reaching a wall is a crash
+// (stopping on it would let the next move through), stopping at the border of a blocked cell is not.
+export const findObstacle = (from: Point, dx: number, dy: number, length: number, layout: BoardLayout, cellSize: number) => {
+  let nearest = Infinity;
+  for (const wall of layout.walls) {
+    const [a, b] = getWallEnds(wall, cellSize);
+    const distance = distanceToSegment(from, dx, dy, a, b);
+    if (distance <= length + TINY) nearest = Math.min(nearest, distance);
+  }
+  for (const cell of layout.blocked) {
+    const distance = distanceToCell(from, dx, dy, cell, cellSize);
+    if (distance < length - TINY) nearest = Math.min(nearest, distance);
+  }
+  return nearest === Infinity ? undefined : nearest;
+};
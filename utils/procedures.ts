@@ -0,0 +1,122 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Procedures: DEFINE blocks declare a named body with parameters, CALL blocks run it.
+// Renaming a procedure or its parameters keeps every call and reference in sync.
+
+import { Command, CommandType, CallArgument } from '../types';
+import { renameInExpression } from './expression';
+
+// Every DEFINE in the program, wherever it is
+export const collectProcedures = (list: Command[]): Command[] => {
+  return list.flatMap(c => [
+    ...(c.type === CommandType.DEFINE ? [c] : []),
+    ...(c.children ? collectProcedures(c.children) : []),
+  ]);
+};
+
+export const findProcedure = (list: Command[], name: string): Command | undefined => {
+  return collectProcedures(list).find(p => p.name === name);
+};
+
+// First free name like "square", "square2", "square3"...
+export const getUniqueName = (list: Command[], base: string): string => {
+  const taken = new Set(collectProcedures(list).map(p => p.name));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base}${n}`)) n++;
+  return `${base}${n}`;
+};
+
+const mapTree = (list: Command[], fn: (cmd: Command) => Command): Command[] => {
+  return list.map(c => {
+    const mapped = fn(c);
+    return mapped.children ? { ...mapped, children: mapTree(mapped.children, fn) } : mapped;
+  });
+};
+
+// Rename a parameter in the expressions and assignments of a procedure body
+const renameReferences = (body: Command[], from: string, to: string): Command[] => {
+  return mapTree(body, c => {
+    let next = c;
+    if (c.type === CommandType.SET_VARIABLE && c.name === from) next = { ...next, name: to };
+    if (c.expr) next = { ...next, expr: renameInExpression(c.expr, from, to) };
+    if (c.args?.some(a => a.expr)) {
+      next = { ...next, args: c.args.map(a => a.expr ? { ...a, expr: renameInExpression(a.expr, from, to) } : a) };
+    }
+    return next;
+  });
+};
+
+const updateProcedure = (list: Command[], defineId: string, fn: (define: Command) => Command): Command[] => {
+  return mapTree(list, c => c.id === defineId ? fn(c) : c);
+};
+
+export const renameProcedure = (list: Command[], defineId: string, name: string): Command[] => {
+  const define = collectProcedures(list).find(p => p.id === defineId);
+  if (!define || define.name === name) return list;
+  return mapTree(list, c => {
+    if (c.id === defineId) return { ...c, name };
+    if (c.type === CommandType.CALL && c.name === define.name) return { ...c, name };
+    return c;
+  });
+};
+
+// New parameter at the end; every call passes 0 for it
+export const addParameter = (list: Command[], defineId: string, param: string): Command[] => {
+  const define = collectProcedures(list).find(p => p.id === defineId);
+  if (!define) return list;
+  return mapTree(list, c => {
+    if (c.id === defineId) return { ...c, params: [...(c.params || []), param] };
+    if (c.type === CommandType.CALL && c.name === define.name) return { ...c, args: [...(c.args || []), { value: 0 }] };
+    return c;
+  });
+};
+
+// Expressions still using the parameter report it as undefined when run
+export const removeParameter = (list: Command[], defineId: string, index: number): Command[] => {
+  const define = collectProcedures(list).find(p => p.id === defineId);
+  if (!define) return list;
+  return mapTree(list, c => {
+    if (c.id === defineId) return { ...c, params: (c.params || []).filter((_, i) => i !== index) };
+    if (c.type === CommandType.CALL && c.name === define.name) {
+      return { ...c, args: (c.args || []).filter((_, i) => i !== index) };
+    }
+    return c;
+  });
+};
+
+export const renameParameter = (list: Command[], defineId: string, index: number, param: string): Command[] => {
+  return updateProcedure(list, defineId, c => {
+    const old = (c.params || [])[index];
+    return {
+      ...c,
+      params: (c.params || []).map((p, i) => i === index ? param : p),
+      children: renameReferences(c.children || [], old, param),
+    };
+  });
+};
+
+// Point a CALL to another procedure, keeping the argument values that still fit
+export const setCallTarget = (list: Command[], callId: string, name: string): Command[] => {
+  const params = findProcedure(list, name)?.params || [];
+  return mapTree(list, c => {
+    if (c.id !== callId) return c;
+    const args = params.map((_, i) => c.args?.[i] ?? { value: 0 });
+    return { ...c, name, args };
+  });
+};
+
+// Calls written with fewer arguments than parameters (e.g. in the text view) are
+// padded with 0 first, so any parameter can be edited
+export const updateCallArgument = (list: Command[], callId: string, index: number, arg: CallArgument): Command[] => {
+  return mapTree(list, c => {
+    if (c.id !== callId) return c;
+    const count = Math.max(c.args?.length ?? 0, findProcedure(list, c.name || '')?.params?.length ?? 0, index + 1);
+    const args = Array.from({ length: count }, (_, i) => c.args?.[i] ?? { value: 0 });
+    return { ...c, args: args.map((a, i) => i === index ? arg : a) };
+  });
+};
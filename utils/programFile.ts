@@ -0,0 +1,344 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Versioned program format for files and share links.
+// Everything loaded from outside goes through validateProgram before reaching the app.
+
+import { v4 as uuidv4 } from 'uuid';
+import { Command, CommandType, CallArgument, Condition, BoardSettings, BoardLayout, DistanceUnit, EdgeMode } from '../types';
+import { BOARD_LIMITS } from '../constants';
+import { isValidName, parseExpression } from './expression';
+import { hasBody } from './commandTree';
+import { DEFAULT_BOARD_SETTINGS, isDefaultBoard } from './board';
+import { EMPTY_LAYOUT, isLayoutEmpty, parseLayout } from './maze';
+import { DEFAULT_UNIT } from './units';
+import { VALUE_RANGES, ARGUMENT_RANGE, isInRange } from './valueRanges';
+
+export const PROGRAM_FORMAT = 'robodibuix-program';
+// 1: first version
+// 2: procedures (DEFINE, CALL and parameter references)
+// 3: expressions and variables (`expr` replaces the parameter references of version 2)
+// 4: conditions (IF and ELSE)
+// 5: board settings (size, cell size and start pose)
+// 6: edge mode in the board settings
+// 7: maze layout (blocked cells, walls and goals) in the board settings
+// 8: distance unit in the board settings, longer moves (for pixels)
+export const PROGRAM_FORMAT_VERSION = 8;
+
+// Commands are stored without ids, they are regenerated on load
+export interface StoredCommand {
+  type: CommandType;
+  value: number;
+  expr?: string;
+  param?: string; // Version 2 only, read as an expression
+  children?: StoredCommand[];
+  name?: string;
+  params?: string[];
+  args?: CallArgument[];
+  condition?: Condition;
+}
+
+export interface ProgramFile {
+  format: typeof PROGRAM_FORMAT;
+  version: number;
+  commands: StoredCommand[];
+  board?: BoardSettings; // Default board when missing (before version 5)
+}
+
+export interface ProgramLoadError {
+  key: string; // Translation key for the message
+  path?: string; // Block position, e.g. "2.1" = first block inside the second one
+  token?: string; // Offending value, if any
+}
+
+export interface ProgramLoadResult {
+  commands: Command[]; // Empty when there is an error
+  board: BoardSettings; // Default when there is an error
+  error?: ProgramLoadError;
+}
+
+// One-letter codes used by share links to keep URLs short
+const SHORT_CODES: Record<CommandType, string> = {
+  [CommandType.FORWARD]: 'F',
+  [CommandType.BACKWARD]: 'B',
+  [CommandType.TURN_LEFT]: 'L',
+  [CommandType.TURN_RIGHT]: 'R',
+  [CommandType.REPEAT]: 'N',
+  [CommandType.PEN_UP]: 'U',
+  [CommandType.PEN_DOWN]: 'D',
+  [CommandType.SET_COLOR]: 'C',
+  [CommandType.SET_WIDTH]: 'W',
+  [CommandType.DEFINE]: 'P',
+  [CommandType.CALL]: 'K',
+  [CommandType.SET_VARIABLE]: 'V',
+  [CommandType.IF]: 'I',
+  [CommandType.ELSE]: 'E',
+};
+
+const SHARE_HASH_PREFIX = '#p=';
+
+const toStored = (commands: Command[]): StoredCommand[] => {
+  return commands.map(cmd => ({
+    type: cmd.type,
+    value: cmd.value,
+    ...(cmd.expr ? { expr: cmd.expr } : {}),
+    ...(cmd.children ? { children: toStored(cmd.children) } : {}),
+    ...(cmd.name !== undefined && !(cmd.type === CommandType.REPEAT && !cmd.name) ? { name: cmd.name } : {}),
+    ...(cmd.params ? { params: cmd.params } : {}),
+    ...(cmd.args ? { args: cmd.args.map(a => a.expr ? { value: a.value, expr: a.expr } : { value: a.value }) } : {}),
+    ...(cmd.condition ? { condition: cmd.condition } : {}),
+  }));
+};
+
+export const serializeProgram = (commands: Command[], board: BoardSettings = DEFAULT_BOARD_SETTINGS): ProgramFile => ({
+  format: PROGRAM_FORMAT,
+  version: PROGRAM_FORMAT_VERSION,
+  commands: toStored(commands),
+  board: {
+    width: board.width,
+    height: board.height,
+    cellSize: board.cellSize,
+    unit: board.unit,
+    edgeMode: board.edgeMode,
+    layout: board.layout,
+    start: { ...board.start },
+  },
+});
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number => {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+};
+
+const validateBoard = (data: unknown): BoardSettings => {
+  if (data === undefined) return DEFAULT_BOARD_SETTINGS;
+  if (!data || typeof data !== 'object') throw { key: 'import_invalid_board', token: 'board' };
+
+  const {
+    width,
+    height,
+    cellSize,
+    unit = DEFAULT_UNIT,
+    edgeMode = DEFAULT_BOARD_SETTINGS.edgeMode,
+    layout = EMPTY_LAYOUT,
+    start,
+  } = data as Partial<BoardSettings>;
+  if (!isNumberIn(cellSize, BOARD_LIMITS.cellSize.min, BOARD_LIMITS.cellSize.max)) {
+    throw { key: 'import_invalid_board', token: 'cellSize' };
+  }
+  const maxSize = BOARD_LIMITS.cells.max * cellSize;
+  if (!isNumberIn(width, cellSize, maxSize)) throw { key: 'import_invalid_board', token: 'width' };
+  if (!isNumberIn(height, cellSize, maxSize)) throw { key: 'import_invalid_board', token: 'height' };
+  if (!Object.values(DistanceUnit).includes(unit)) throw { key: 'import_invalid_board', token: 'unit' };
+  if (!Object.values(EdgeMode).includes(edgeMode)) throw { key: 'import_invalid_board', token: 'edgeMode' };
+  const validLayout = parseLayout(layout, Math.round(width / cellSize), Math.round(height / cellSize));
+  if (!validLayout) throw { key: 'import_invalid_board', token: 'layout' };
+  const { x, y, angle } = (start || {}) as Partial<BoardSettings['start']>;
+  if (!isNumberIn(x, 0, width) || !isNumberIn(y, 0, height) || !isNumberIn(angle, -3600, 3600)) {
+    throw { key: 'import_invalid_board', token: 'start' };
+  }
+  return { width, height, cellSize, unit, edgeMode, layout: validLayout, start: { x, y, angle } };
+};
+
+export const validateProgram = (data: unknown): ProgramLoadResult => {
+  const fail = (error: ProgramLoadError): ProgramLoadResult => ({ commands: [], board: DEFAULT_BOARD_SETTINGS, error });
+
+  if (!data || typeof data !== 'object') return fail({ key: 'import_not_a_program' });
+  const file = data as Partial<ProgramFile>;
+  if (file.format !== PROGRAM_FORMAT) return fail({ key: 'import_not_a_program' });
+  if (!Number.isInteger(file.version) || file.version < 1 || file.version > PROGRAM_FORMAT_VERSION) {
+    return fail({ key: 'import_unsupported_version', token: String(file.version) });
+  }
+  if (!Array.isArray(file.commands)) return fail({ key: 'import_not_a_program' });
+
+  const validateList = (list: unknown[], parentPath: string): Command[] => {
+    return list.map((item, index) => {
+      const path = parentPath ? `${parentPath}.${index + 1}` : `${index + 1}`;
+      if (!item || typeof item !== 'object') throw { key: 'import_invalid_block', path };
+
+      const { type, value, expr, param, children, name, params, args, condition } = item as Partial<StoredCommand>;
+      if (!Object.values(CommandType).includes(type as CommandType)) {
+        throw { key: 'import_unknown_type', path, token: String(type) };
+      }
+
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw { key: 'import_invalid_value', path, token: String(value) };
+      }
+      if (!isInRange(value, VALUE_RANGES[type as CommandType])) {
+        throw { key: 'import_value_out_of_range', path, token: String(value) };
+      }
+
+      const checkName = (candidate: unknown) => {
+        if (typeof candidate !== 'string' || !isValidName(candidate)) {
+          throw { key: 'import_invalid_name', path, token: String(candidate) };
+        }
+      };
+
+      // Expression text, or undefined when the value is a plain number
+      const checkExpression = (candidate: unknown, legacyParam?: unknown): string | undefined => {
+        if (legacyParam !== undefined) {
+          checkName(legacyParam);
+          return legacyParam as string;
+        }
+        if (candidate === undefined) return undefined;
+        if (typeof candidate !== 'string' || parseExpression(candidate).error) {
+          throw { key: 'import_invalid_expression', path, token: String(candidate) };
+        }
+        return candidate;
+      };
+
+      const cmd: Command = { id: uuidv4(), type: type as CommandType, value };
+      const valueExpr = checkExpression(expr, param);
+      if (valueExpr) cmd.expr = valueExpr;
+
+      if (type === CommandType.REPEAT && name !== undefined && name !== '') {
+        checkName(name); // Loop counter
+        cmd.name = name;
+      }
+      if (type === CommandType.SET_VARIABLE) {
+        checkName(name);
+        cmd.name = name;
+      }
+      if (hasBody(type)) {
+        if (!Array.isArray(children)) throw { key: 'import_missing_children', path };
+        cmd.children = validateList(children, path);
+      }
+      if (type === CommandType.IF) {
+        if (!Object.values(Condition).includes(condition)) {
+          throw { key: 'import_invalid_condition', path, token: String(condition) };
+        }
+        cmd.condition = condition;
+      }
+      if (type === CommandType.DEFINE) {
+        checkName(name);
+        if (!Array.isArray(params)) throw { key: 'import_invalid_block', path };
+        params.forEach(checkName);
+        cmd.name = name;
+        cmd.params = [...params];
+      }
+      if (type === CommandType.CALL) {
+        if (name !== '') checkName(name); // Empty until a procedure is chosen
+        if (!Array.isArray(args)) throw { key: 'import_invalid_block', path };
+        cmd.name = name;
+        cmd.args = args.map(arg => {
+          const argValue = arg?.value;
+          if (typeof argValue !== 'number' || !Number.isFinite(argValue)) {
+            throw { key: 'import_invalid_value', path, token: String(argValue) };
+          }
+          if (!isInRange(argValue, ARGUMENT_RANGE)) {
+            throw { key: 'import_value_out_of_range', path, token: String(argValue) };
+          }
+          const argExpr = checkExpression(arg.expr, (arg as { param?: unknown }).param);
+          return argExpr ? { value: argValue, expr: argExpr } : { value: argValue };
+        });
+      }
+      return cmd;
+    });
+  };
+
+  try {
+    return { commands: validateList(file.commands, ''), board: validateBoard(file.board) };
+  } catch (error) {
+    // Anything but our own errors, e.g. a RangeError from absurdly deep nesting
+    const isLoadError = !!error && typeof (error as ProgramLoadError).key === 'string';
+    return fail(isLoadError ? error as ProgramLoadError : { key: 'import_invalid_json' });
+  }
+};
+
+export const parseProgramFile = (json: string): ProgramLoadResult => {
+  try {
+    return validateProgram(JSON.parse(json));
+  } catch {
+    return { commands: [], board: DEFAULT_BOARD_SETTINGS, error: { key: 'import_invalid_json' } };
+  }
+};
+
+// --- Share links ---
+
+// Compact form: [code, value, children?, extra?] arrays, JSON encoded as base64url.
+// children is null when only extra (expression, names...) is present.
+type CompactExtra = Pick<StoredCommand, 'expr' | 'name' | 'params' | 'args' | 'condition'>;
+type CompactCommand = [string, number, (CompactCommand[] | null)?, CompactExtra?];
+
+const toCompact = (commands: StoredCommand[]): CompactCommand[] => {
+  return commands.map(cmd => {
+    const { type, value, children, ...extra } = cmd;
+    const compactChildren = children ? toCompact(children) : null;
+    if (Object.keys(extra).length > 0) return [SHORT_CODES[type], value, compactChildren, extra];
+    return compactChildren ? [SHORT_CODES[type], value, compactChildren] : [SHORT_CODES[type], value];
+  });
+};
+
+const fromCompact = (list: unknown): StoredCommand[] => {
+  if (!Array.isArray(list)) return [];
+  return list.map(item => {
+    const [code, value, children, extra] = Array.isArray(item) ? item : [];
+    const type = (Object.keys(SHORT_CODES) as CommandType[]).find(t => SHORT_CODES[t] === code);
+    return {
+      ...(extra && typeof extra === 'object' ? extra : {}),
+      // Unknown codes are kept so validation can report them
+      type: type ?? code,
+      value,
+      ...(children !== undefined && children !== null ? { children: fromCompact(children) } : {}),
+    };
+  });
+};
+
+// Bytes per String.fromCharCode call, spreading a whole large program would overflow the stack
+const CHUNK_SIZE = 0x8000;
+
+// Text as URL-safe base64. btoa only takes single bytes, so go through UTF-8 for names with any letters
+export const encodeBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// Throws on malformed input
+export const decodeBase64Url = (payload: string): string => {
+  const binary = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+// The board goes in an extra part, only when it is not the default one:
+// [width, height, cellSize, startX, startY, startAngle, edgeMode?, layout?, unit?]
+type CompactBoard = [number, number, number, number, number, number, EdgeMode?, BoardLayout?, DistanceUnit?];
+
+export const encodeShareHash = (commands: Command[], board: BoardSettings = DEFAULT_BOARD_SETTINGS): string => {
+  const json = JSON.stringify(toCompact(toStored(commands)));
+  const hash = `${SHARE_HASH_PREFIX}${PROGRAM_FORMAT_VERSION}.${encodeBase64Url(json)}`;
+  if (isDefaultBoard(board)) return hash;
+  const compactBoard: CompactBoard = [board.width, board.height, board.cellSize, board.start.x, board.start.y, board.start.angle, board.edgeMode];
+  if (!isLayoutEmpty(board.layout) || board.unit !== DEFAULT_UNIT) compactBoard.push(board.layout);
+  if (board.unit !== DEFAULT_UNIT) compactBoard.push(board.unit);
+  return `${hash}.${encodeBase64Url(JSON.stringify(compactBoard))}`;
+};
+
+const fromCompactBoard = (payload: string | undefined): BoardSettings | undefined => {
+  if (payload === undefined) return undefined;
+  const [width, height, cellSize, x, y, angle, edgeMode, layout, unit] = JSON.parse(decodeBase64Url(payload)) as CompactBoard;
+  return { width, height, cellSize, unit, edgeMode, layout, start: { x, y, angle } };
+};
+
+// Returns null when the hash does not contain a program at all
+export const decodeShareHash = (hash: string): ProgramLoadResult | null => {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+
+  const [version, payload = '', boardPayload] = hash.slice(SHARE_HASH_PREFIX.length).split('.');
+  try {
+    const json = decodeBase64Url(payload);
+    return validateProgram({
+      format: PROGRAM_FORMAT,
+      version: Number(version),
+      commands: fromCompact(JSON.parse(json)),
+      board: fromCompactBoard(boardPayload),
+    });
+  } catch {
+    return { commands: [], board: DEFAULT_BOARD_SETTINGS, error: { key: 'import_invalid_link' } };
+  }
+};
@@ -0,0 +1,352 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Logo-like text syntax for programs, e.g. `REPETIR 4 [ ENDAVANT 3 DRETA 90 ]`.
+// Keywords come from translations.ts, the parser accepts them in any language.
+// Procedures: `DEFINE square :size [ REPEAT 4 [ FORWARD :size RIGHT 90 ] ]` and `CALL square 3`.
+// Values can be expressions, in parentheses when they have spaces: `SET side (:side + 1)`.
+// A loop counter is named after the count: `REPEAT 10 :i [ FORWARD :i RIGHT 90 ]`.
+// A CALL with no procedure chosen yet is written `CALL ?`.
+// Conditions name a sensor, FACING takes a heading: `IF FACING 90 [ LEFT 90 ] ELSE [ FORWARD 1 ]`.
+
+import { v4 as uuidv4 } from 'uuid';
+import { Command, CommandType, CallArgument, Condition } from '../types';
+import { translations, Language } from '../translations';
+import { isValidName, isPlainNumber, parseExpression } from './expression';
+import { VALUE_RANGES, ARGUMENT_RANGE, ValueRange, isInRange } from './valueRanges';
+import { settle } from './units';
+
+export interface ParseError {
+  key: string; // Translation key for the message
+  token?: string; // Offending text, if any
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface ParseResult {
+  commands: Command[]; // Empty when there is an error
+  error?: ParseError;
+}
+
+interface Token {
+  type: 'word' | 'number' | 'param' | 'expr' | 'open' | 'close';
+  text: string;
+  line: number;
+  column: number;
+}
+
+const KEYWORD_KEYS: Record<CommandType, string> = {
+  [CommandType.FORWARD]: 'kw_forward',
+  [CommandType.BACKWARD]: 'kw_backward',
+  [CommandType.TURN_LEFT]: 'kw_left',
+  [CommandType.TURN_RIGHT]: 'kw_right',
+  [CommandType.REPEAT]: 'kw_repeat',
+  [CommandType.PEN_UP]: 'kw_pen_up',
+  [CommandType.PEN_DOWN]: 'kw_pen_down',
+  [CommandType.SET_COLOR]: 'kw_color',
+  [CommandType.SET_WIDTH]: 'kw_width',
+  [CommandType.DEFINE]: 'kw_define',
+  [CommandType.CALL]: 'kw_call',
+  [CommandType.SET_VARIABLE]: 'kw_set',
+  [CommandType.IF]: 'kw_if',
+  [CommandType.ELSE]: 'kw_else',
+};
+
+const CONDITION_KEYWORD_KEYS: Record<Condition, string> = {
+  [Condition.EDGE_AHEAD]: 'kw_edge_ahead',
+  [Condition.FACING]: 'kw_facing',
+  [Condition.PAINTED_AHEAD]: 'kw_painted_ahead',
+  [Condition.ON_TARGET]: 'kw_on_target',
+};
+
+// Name of a CALL with no procedure chosen yet
+const NO_PROCEDURE = '?';
+
+// Commands that are written without a number
+// (SET_VARIABLE has one after the variable name, IF FACING after the condition)
+const NO_VALUE_TYPES = [
+  CommandType.PEN_UP,
+  CommandType.PEN_DOWN,
+  CommandType.DEFINE,
+  CommandType.CALL,
+  CommandType.SET_VARIABLE,
+  CommandType.IF,
+  CommandType.ELSE,
+];
+
+export const getKeyword = (type: CommandType, language: Language): string => {
+  // @ts-ignore
+  return translations[language][KEYWORD_KEYS[type]];
+};
+
+export const getConditionKeyword = (condition: Condition, language: Language): string => {
+  // @ts-ignore
+  return translations[language][CONDITION_KEYWORD_KEYS[condition]];
+};
+
+// Keyword (uppercase) -> command or condition, for every language
+const KEYWORDS = new Map<string, CommandType>();
+const CONDITION_KEYWORDS = new Map<string, Condition>();
+for (const language of Object.keys(translations) as Language[]) {
+  for (const type of Object.values(CommandType)) {
+    KEYWORDS.set(getKeyword(type, language).toUpperCase(), type);
+  }
+  for (const condition of Object.values(Condition)) {
+    CONDITION_KEYWORDS.set(getConditionKeyword(condition, language).toUpperCase(), condition);
+  }
+}
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let line = 1;
+  let column = 1;
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\n') {
+      line++;
+      column = 1;
+      i++;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      column++;
+      i++;
+      continue;
+    }
+    // Comments run until the end of the line
+    if (char === '#') {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+    // Parenthesized expression, up to the matching parenthesis (or the end, to report it)
+    if (char === '(') {
+      let depth = 0;
+      let end = i;
+      do {
+        if (source[end] === '(') depth++;
+        if (source[end] === ')') depth--;
+        end++;
+      } while (end < source.length && depth > 0);
+      const text = source.slice(i, end);
+      tokens.push({ type: 'expr', text, line, column });
+      const lines = text.split('\n');
+      if (lines.length > 1) {
+        line += lines.length - 1;
+        column = lines[lines.length - 1].length + 1;
+      } else {
+        column += text.length;
+      }
+      i = end;
+      continue;
+    }
+    if (char === '[' || char === ']') {
+      tokens.push({ type: char === '[' ? 'open' : 'close', text: char, line, column });
+      column++;
+      i++;
+      continue;
+    }
+
+    // Anything else runs until the next space or bracket
+    let end = i;
+    while (end < source.length && !/[\s[\]#]/.test(source[end])) end++;
+    const text = source.slice(i, end);
+    const type = /^-?\d+(\.\d+)?$/.test(text) ? 'number' : text.startsWith(':') ? 'param' : 'word';
+    tokens.push({ type, text, line, column });
+    column += end - i;
+    i = end;
+  }
+
+  return tokens;
+};
+
+export const parseProgram = (source: string): ParseResult => {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  // Position reported when the program ends too early
+  const endPosition = () => {
+    const lines = source.split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  };
+
+  const makeError = (key: string, token?: Token): ParseError => {
+    return token
+      ? { key, token: token.text, line: token.line, column: token.column }
+      : { key, ...endPosition() };
+  };
+
+  // Procedure or parameter name (without the colon)
+  const parseName = (token: Token | undefined, prefix = ''): string => {
+    if (!token) throw makeError('parse_expected_name');
+    const name = token.text.slice(prefix.length);
+    if (!token.text.startsWith(prefix) || !isValidName(name)) throw makeError('parse_expected_name', token);
+    pos++;
+    return name;
+  };
+
+  const isValueToken = (token: Token | undefined) => {
+    return token?.type === 'number' || token?.type === 'param' || token?.type === 'expr';
+  };
+
+  // A number, a variable like `:size` or an expression. Plain words are accepted too
+  // (`side*2`), except in CALL arguments where they would be mistaken for commands.
+  // Numbers outside `range` are rejected, like when loading a file.
+  const parseValue = (range: ValueRange, allowWords = true): CallArgument => {
+    const token = tokens[pos];
+    const isWordValue = allowWords && token?.type === 'word' && !KEYWORDS.has(token.text.toUpperCase());
+    if (!isValueToken(token) && !isWordValue) throw makeError('parse_expected_number', token);
+    pos++;
+
+    const parseNumber = (text: string) => {
+      const value = parseFloat(text);
+      if (!isInRange(value, range)) throw makeError('value_out_of_range', token);
+      return { value };
+    };
+
+    if (token.type === 'number') return parseNumber(token.text);
+    // One level of parentheses is only there for the text syntax
+    const text = token.type === 'expr' ? token.text.slice(1, token.text.endsWith(')') ? -1 : undefined).trim() : token.text;
+    const { error } = parseExpression(text);
+    if (error) throw makeError(error.key, token);
+    if (isPlainNumber(text)) return parseNumber(text);
+    // Colons are optional in expressions and not kept (`:side + 1` -> `side + 1`)
+    return { value: 0, expr: text.replace(/:(?=[\p{L}_])/gu, '') };
+  };
+
+  const parseBody = (): Command[] => {
+    const bracket = tokens[pos];
+    if (!bracket || bracket.type !== 'open') throw makeError('parse_expected_bracket', bracket);
+    pos++;
+    return parseSequence(bracket);
+  };
+
+  const parseSequence = (openBracket?: Token): Command[] => {
+    const list: Command[] = [];
+
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+
+      if (token.type === 'close') {
+        if (!openBracket) throw makeError('parse_unexpected_bracket', token);
+        pos++;
+        return list;
+      }
+      if (token.type !== 'word') throw makeError('parse_expected_command', token);
+
+      const type = KEYWORDS.get(token.text.toUpperCase());
+      if (!type) throw makeError('parse_unknown_command', token);
+      pos++;
+
+      const cmd: Command = { id: uuidv4(), type, value: 0 };
+
+      if (type === CommandType.SET_VARIABLE) {
+        const nameToken = tokens[pos];
+        cmd.name = parseName(nameToken, nameToken?.type === 'param' ? ':' : '');
+      }
+
+      if (!NO_VALUE_TYPES.includes(type) || type === CommandType.SET_VARIABLE) {
+        const { value, expr } = parseValue(VALUE_RANGES[type]);
+        cmd.value = value;
+        if (expr) cmd.expr = expr;
+      }
+
+      if (type === CommandType.REPEAT) {
+        if (tokens[pos]?.type === 'param') cmd.name = parseName(tokens[pos], ':'); // Counter
+        cmd.children = parseBody();
+      }
+
+      if (type === CommandType.DEFINE) {
+        cmd.name = parseName(tokens[pos]);
+        cmd.params = [];
+        while (tokens[pos]?.type === 'param') cmd.params.push(parseName(tokens[pos], ':'));
+        cmd.children = parseBody();
+      }
+
+      if (type === CommandType.IF) {
+        const conditionToken = tokens[pos];
+        const condition = conditionToken?.type === 'word' ? CONDITION_KEYWORDS.get(conditionToken.text.toUpperCase()) : undefined;
+        if (!condition) throw makeError('parse_expected_condition', conditionToken);
+        pos++;
+        cmd.condition = condition;
+        if (condition === Condition.FACING) {
+          const { value, expr } = parseValue(VALUE_RANGES[type]);
+          cmd.value = value;
+          if (expr) cmd.expr = expr;
+        }
+      }
+
+      if (type === CommandType.IF || type === CommandType.ELSE) {
+        cmd.children = parseBody();
+      }
+
+      if (type === CommandType.CALL) {
+        if (tokens[pos]?.type === 'word' && tokens[pos].text === NO_PROCEDURE) {
+          cmd.name = '';
+          pos++;
+        } else {
+          cmd.name = parseName(tokens[pos]);
+        }
+        // Arguments run until the next command
+        cmd.args = [];
+        while (isValueToken(tokens[pos])) cmd.args.push(parseValue(ARGUMENT_RANGE, false));
+      }
+
+      list.push(cmd);
+    }
+
+    if (openBracket) throw makeError('parse_unclosed_bracket', openBracket);
+    return list;
+  };
+
+  try {
+    return { commands: parseSequence() };
+  } catch (error) {
+    return { commands: [], error: error as ParseError };
+  }
+};
+
+// Plain decimals, String() would give 1e-7 for tiny values and the parser takes no exponents
+const numberToText = (n: number) => settle(n).toFixed(6).replace(/\.?0+$/, '');
+
+const valueToText = (value: CallArgument) => {
+  if (!value.expr) return numberToText(value.value);
+  return isValidName(value.expr) ? `:${value.expr}` : `(${value.expr})`;
+};
+
+const getHead = (cmd: Command, keyword: string, language: Language): string => {
+  switch (cmd.type) {
+    case CommandType.IF: {
+      const condition = getConditionKeyword(cmd.condition, language);
+      return cmd.condition === Condition.FACING ? `${keyword} ${condition} ${valueToText(cmd)}` : `${keyword} ${condition}`;
+    }
+    case CommandType.DEFINE:
+      return [keyword, cmd.name, ...(cmd.params || []).map(p => `:${p}`)].join(' ');
+    case CommandType.CALL:
+      return [keyword, cmd.name || NO_PROCEDURE, ...(cmd.args || []).map(valueToText)].join(' ');
+    case CommandType.SET_VARIABLE:
+      return `${keyword} ${cmd.name} ${valueToText(cmd)}`;
+    case CommandType.REPEAT:
+      return cmd.name ? `${keyword} ${valueToText(cmd)} :${cmd.name}` : `${keyword} ${valueToText(cmd)}`;
+    default:
+      return NO_VALUE_TYPES.includes(cmd.type) ? keyword : `${keyword} ${valueToText(cmd)}`;
+  }
+};
+
+export const programToText = (commands: Command[], language: Language, indent = ''): string => {
+  return commands.map(cmd => {
+    const head = getHead(cmd, getKeyword(cmd.type, language), language);
+
+    if (cmd.children) {
+      const children = cmd.children;
+      if (children.length === 0) return `${indent}${head} [ ]`;
+      return `${indent}${head} [\n${programToText(children, language, indent + '  ')}\n${indent}]`;
+    }
+    return `${indent}${head}`;
+  }).join('\n');
+};
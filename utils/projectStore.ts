@@ -0,0 +1,103 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Named projects kept in localStorage. Programs are stored in the same
+// versioned format as exported files, so they are validated when opened.
+
+import { v4 as uuidv4 } from 'uuid';
+import { BoardSettings, Command } from '../types';
+import { STORAGE_KEYS } from '../constants';
+import { ProgramFile, ProgramLoadResult, serializeProgram, validateProgram } from './programFile';
+import { runProgram } from './interpreter';
+import { renderThumbnail } from './drawing';
+import { DEFAULT_BOARD_SETTINGS, getBoard, getStartState } from './board';
+
+export interface Project {
+  id: string;
+  name: string;
+  studentName: string; // Optional, classroom computers are shared
+  program: ProgramFile;
+  thumbnail: string; // PNG data URL
+  updatedAt: number; // Timestamp in ms
+}
+
+// Only the shape is checked here, the program itself is checked when the project is opened
+const isProject = (entry: unknown): entry is Project => {
+  if (!entry || typeof entry !== 'object') return false;
+  const project = entry as Project;
+  return typeof project.id === 'string'
+    && typeof project.name === 'string'
+    && typeof project.studentName === 'string'
+    && !!project.program && typeof project.program === 'object'
+    && typeof project.thumbnail === 'string'
+    && Number.isFinite(project.updatedAt);
+};
+
+// Entries broken by hand or by another version are left out
+export const loadProjects = (): Project[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEYS.projects) || '[]');
+    return Array.isArray(saved) ? saved.filter(isProject) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Returns false when the browser refuses to store them (e.g. quota exceeded)
+export const saveProjects = (projects: Project[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEYS.projects, JSON.stringify(projects));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const renderProgram = (commands: Command[], board: BoardSettings) => {
+  return renderThumbnail(runProgram(commands, getStartState(board), getBoard(board)).segments, board);
+};
+
+export const createProject = (
+  name: string,
+  commands: Command[] = [],
+  studentName = '',
+  board: BoardSettings = DEFAULT_BOARD_SETTINGS
+): Project => ({
+  id: uuidv4(),
+  name,
+  studentName,
+  program: serializeProgram(commands, board),
+  thumbnail: renderProgram(commands, board),
+  updatedAt: Date.now(),
+});
+
+// Same project with a new program, or the same object if nothing changed.
+// A stored program that can't be opened is never overwritten.
+export const updateProjectProgram = (project: Project, commands: Command[], board: BoardSettings): Project => {
+  if (!canOpenProject(project)) return project;
+  const program = serializeProgram(commands, board);
+  if (JSON.stringify(program) === JSON.stringify(project.program)) return project;
+  return {
+    ...project,
+    program,
+    thumbnail: renderProgram(commands, board),
+    updatedAt: Date.now(),
+  };
+};
+
+export const duplicateProject = (project: Project, name: string): Project => ({
+  ...project,
+  id: uuidv4(),
+  name,
+  updatedAt: Date.now(),
+});
+
+// Broken entries, or saved by a newer version, come with an error instead of crashing
+export const loadProjectProgram = (project: Project): ProgramLoadResult => {
+  return validateProgram(project.program);
+};
+
+export const canOpenProject = (project: Project) => !loadProjectProgram(project).error;
@@ -0,0 +1,100 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Robot sensors used by IF blocks. They look at the robot, the board and what is drawn so far.
+
+import { Condition, RobotState, PathSegment, Point, BoardSize, BoardLayout, DistanceUnit, EdgeMode } from '../types';
+import { GRID_SIZE, CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+import { EMPTY_LAYOUT, findObstacle, getCellCenter } from './maze';
+import { DEFAULT_UNIT, getHeading, toRad } from './units';
+
+// The board the robot moves on and what it holds besides the drawing
+export interface Board extends BoardSize {
+  unit: DistanceUnit;
+  edgeMode: EdgeMode;
+  layout: BoardLayout; // Blocked cells, walls and goals
+}
+
+export const DEFAULT_EDGE_MODE = EdgeMode.ERROR;
+
+export const DEFAULT_BOARD: Board = {
+  width: CANVAS_WIDTH,
+  height: CANVAS_HEIGHT,
+  cellSize: GRID_SIZE,
+  unit: DEFAULT_UNIT,
+  edgeMode: DEFAULT_EDGE_MODE,
+  layout: EMPTY_LAYOUT,
+};
+
+// Half a pixel of tolerance for positions computed with sin/cos
+const EPSILON = 0.5;
+
+// Position after moving the given number of cells forward
+const ahead = (robot: RobotState, cells: number, board: Board): Point => ({
+  x: robot.x + Math.cos(toRad(robot.angle)) * cells * board.cellSize,
+  y: robot.y + Math.sin(toRad(robot.angle)) * cells * board.cellSize,
+});
+
+const isOnBoard = (point: Point, board: Board) => {
+  return point.x >= -EPSILON && point.x <= board.width + EPSILON
+    && point.y >= -EPSILON && point.y <= board.height + EPSILON;
+};
+
+// A wall or a blocked cell within one step forward
+const isObstacleAhead = (robot: RobotState, board: Board) => {
+  const dx = Math.cos(toRad(robot.angle));
+  const dy = Math.sin(toRad(robot.angle));
+  return findObstacle(robot, dx, dy, board.cellSize, board.layout, board.cellSize) !== undefined;
+};
+
+// Inside a goal cell or on its border
+export const isOnGoal = (robot: Point, board: Board) => {
+  return board.layout.goals.some(goal => {
+    const center = getCellCenter(goal, board.cellSize);
+    return Math.abs(center.x - robot.x) <= board.cellSize / 2 + EPSILON
+      && Math.abs(center.y - robot.y) <= board.cellSize / 2 + EPSILON;
+  });
+};
+
+const distanceToLine = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// A step is painted when a drawn line goes through its middle
+const isPainted = (point: Point, segments: PathSegment[]) => {
+  return segments.some(segment => segment.points.some((a, i) => {
+    const b = segment.points[i + 1];
+    return b !== undefined && distanceToLine(point, a, b) <= EPSILON;
+  }));
+};
+
+export const evaluateCondition = (
+  condition: Condition,
+  value: number,
+  robot: RobotState,
+  segments: PathSegment[],
+  board: Board
+): boolean => {
+  switch (condition) {
+    case Condition.EDGE_AHEAD:
+      return !isOnBoard(ahead(robot, 1, board), board) || isObstacleAhead(robot, board);
+
+    case Condition.FACING: {
+      const difference = Math.abs(getHeading(robot.angle) - (((value % 360) + 360) % 360));
+      return Math.min(difference, 360 - difference) < EPSILON;
+    }
+
+    case Condition.PAINTED_AHEAD:
+      return isPainted(ahead(robot, 0.5, board), segments);
+
+    case Condition.ON_TARGET:
+      return isOnGoal(robot, board);
+  }
+};
@@ -0,0 +1,98 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Compares two drawings as sets of straight lines, ignoring how they were drawn:
+// order, direction, splitting a line in several moves and drawing over a line again
+// all give the same shape. Pen color and width are not taken into account.
+
+import { Point } from '../types';
+import { GRID_SIZE } from '../constants';
+
+// Distances below this (in grid cells) are considered equal
+const TOLERANCE = 0.01;
+
+// A maximal straight piece of the drawing: the line it lies on and where it starts and ends along it
+interface Stroke {
+  angle: number; // Direction in degrees, in [0, 180)
+  offset: number; // Signed distance from the origin to the line, in cells
+  start: number; // Position along the line, in cells
+  end: number;
+}
+
+export interface ShapeComparison {
+  matches: boolean;
+  missing: number; // Target strokes not drawn exactly
+  extra: number; // Drawn strokes that are not in the target
+}
+
+// Same line within the tolerance. Compared directly rather than by rounded keys, which
+// put two nearly equal lines in different groups when they fall on each side of a rounding step.
+const isSameLine = (a: Stroke, b: Stroke) => {
+  return Math.abs(a.angle - b.angle) < 0.1 && Math.abs(a.offset - b.offset) < TOLERANCE * 2;
+};
+
+// Break polylines into strokes and merge the ones that overlap or touch on the same line
+const toStrokes = (polylines: Point[][]): Stroke[] => {
+  const lines: Stroke[][] = []; // Strokes grouped by line, the first one stands for the line
+
+  for (const points of polylines) {
+    for (let i = 1; i < points.length; i++) {
+      const ax = points[i - 1].x / GRID_SIZE;
+      const ay = points[i - 1].y / GRID_SIZE;
+      const bx = points[i].x / GRID_SIZE;
+      const by = points[i].y / GRID_SIZE;
+      const length = Math.hypot(bx - ax, by - ay);
+      if (length < TOLERANCE) continue;
+
+      // Same direction for both ways of drawing the line
+      let dx = (bx - ax) / length;
+      let dy = (by - ay) / length;
+      if (dy < -TOLERANCE / 10 || (Math.abs(dy) <= TOLERANCE / 10 && dx < 0)) {
+        dx = -dx;
+        dy = -dy;
+      }
+      const angle = (Math.atan2(dy, dx) * 180) / Math.PI;
+      const offset = dx * ay - dy * ax;
+      const from = ax * dx + ay * dy;
+      const to = bx * dx + by * dy;
+
+      const stroke = { angle, offset, start: Math.min(from, to), end: Math.max(from, to) };
+      const line = lines.find(strokes => isSameLine(strokes[0], stroke));
+      if (line) line.push(stroke);
+      else lines.push([stroke]);
+    }
+  }
+
+  const strokes: Stroke[] = [];
+  for (const line of lines) {
+    line.sort((a, b) => a.start - b.start);
+    let current = { ...line[0] };
+    for (const stroke of line.slice(1)) {
+      if (stroke.start <= current.end + TOLERANCE) {
+        current.end = Math.max(current.end, stroke.end);
+      } else {
+        strokes.push(current);
+        current = { ...stroke };
+      }
+    }
+    strokes.push(current);
+  }
+  return strokes;
+};
+
+const isSameStroke = (a: Stroke, b: Stroke) => {
+  return isSameLine(a, b)
+    && Math.abs(a.start - b.start) < TOLERANCE * 2
+    && Math.abs(a.end - b.end) < TOLERANCE * 2;
+};
+
+export const compareShapes = (drawn: Point[][], target: Point[][]): ShapeComparison => {
+  const drawnStrokes = toStrokes(drawn);
+  const targetStrokes = toStrokes(target);
+  const missing = targetStrokes.filter(s => !drawnStrokes.some(d => isSameStroke(s, d))).length;
+  const extra = drawnStrokes.filter(d => !targetStrokes.some(s => isSameStroke(s, d))).length;
+  return { matches: missing === 0 && extra === 0, missing, extra };
+};
@@ -0,0 +1,128 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Simplification suggestions: blocks repeated in a row that fit in a REPEAT, equal moves
+// in a row, turns that undo each other, turns of a full turn or more and the same pen block
+// in a row. Applying one never changes the drawing.
+
+import { Command, CommandType } from '../types';
+import { createCommand, countCommands, updateTree } from './commandTree';
+import { settle } from './units';
+import { VALUE_RANGES, isInRange } from './valueRanges';
+
+export type SuggestionKind = 'repeat' | 'merge' | 'cancel' | 'normalize' | 'duplicate';
+
+export interface Suggestion {
+  kind: SuggestionKind;
+  parentId: string | null; // List holding the blocks, null for the main sequence
+  index: number; // First block replaced
+  count: number; // Blocks replaced
+  replacement: Command[]; // Empty when the blocks just go away
+  position: string; // Of the replaced blocks, e.g. "2.1" or "1–8" (see getCommandPosition)
+  times?: number; // Repetitions, for 'repeat'
+}
+
+const MOVES = [CommandType.FORWARD, CommandType.BACKWARD, CommandType.TURN_LEFT, CommandType.TURN_RIGHT];
+const isTurn = (cmd: Command) => cmd.type === CommandType.TURN_LEFT || cmd.type === CommandType.TURN_RIGHT;
+const isPen = (cmd: Command) => cmd.type === CommandType.PEN_UP || cmd.type === CommandType.PEN_DOWN;
+// Plain number, not an expression that may change from one run to the next
+const isPlain = (cmd: Command) => cmd.expr === undefined;
+
+// Everything but ids, to compare blocks
+const getSignature = (cmd: Command): string => JSON.stringify([
+  cmd.type,
+  cmd.value,
+  cmd.expr ?? null,
+  cmd.name ?? null,
+  cmd.condition ?? null,
+  cmd.params ?? null,
+  cmd.args?.map(arg => [arg.value, arg.expr ?? null]) ?? null,
+  cmd.children?.map(getSignature) ?? null,
+]);
+
+// Right positive
+const getTurn = (cmd: Command) => cmd.type === CommandType.TURN_RIGHT ? cmd.value : -cmd.value;
+const createTurn = (turn: number): Command[] => {
+  if (turn === 0) return [];
+  return [createCommand(turn > 0 ? CommandType.TURN_RIGHT : CommandType.TURN_LEFT, Math.abs(turn))];
+};
+
+// Most blocks saved by wrapping a run starting at `start` in a REPEAT
+const findRepeat = (list: Command[], signatures: string[], start: number) => {
+  let best: { length: number; times: number; saved: number } | null = null;
+  for (let length = 1; start + length * 2 <= list.length; length++) {
+    const sequence = list.slice(start, start + length);
+    // Procedures can't go in a loop, and ELSE must stay right after its IF
+    if (sequence.some(cmd => cmd.type === CommandType.DEFINE) || sequence[0].type === CommandType.ELSE) continue;
+    // A single move is better merged (FORWARD 3, not REPEAT 3 [ FORWARD 1 ]) and a single
+    // pen block only needs to be there once
+    if (length === 1 && ((MOVES.includes(sequence[0].type) && isPlain(sequence[0])) || isPen(sequence[0]))) continue;
+    let times = 1;
+    while (
+      start + length * (times + 1) <= list.length
+      && signatures.slice(start, start + length).every((signature, i) => signature === signatures[start + length * times + i])
+    ) times++;
+    if (times < 2 || !isInRange(times, VALUE_RANGES[CommandType.REPEAT])) continue;
+    const end = start + length * times;
+    if (sequence[length - 1].type === CommandType.IF && list[end]?.type === CommandType.ELSE) continue;
+    const saved = (times - 1) * countCommands(sequence) - 1;
+    if (saved > 0 && (!best || saved > best.saved)) best = { length, times, saved };
+  }
+  return best;
+};
+
+const findInList = (list: Command[], parentId: string | null, prefix: string): Suggestion[] => {
+  const suggestions: Suggestion[] = [];
+  const suggest = (kind: SuggestionKind, index: number, count: number, replacement: Command[], times?: number) => {
+    const position = count === 1 ? `${prefix}${index + 1}` : `${prefix}${index + 1}–${prefix}${index + count}`;
+    suggestions.push({ kind, parentId, index, count, replacement, position, ...(times ? { times } : {}) });
+  };
+
+  const signatures = list.map(getSignature);
+  for (let i = 0; i < list.length;) {
+    const repeat = findRepeat(list, signatures, i);
+    if (!repeat) {
+      i++;
+      continue;
+    }
+    const loop: Command = { ...createCommand(CommandType.REPEAT, repeat.times), children: list.slice(i, i + repeat.length) };
+    suggest('repeat', i, repeat.length * repeat.times, [loop], repeat.times);
+    i += repeat.length * repeat.times;
+  }
+
+  for (let i = 0; i < list.length;) {
+    const cmd = list[i];
+    let end = i + 1;
+    if ((MOVES.includes(cmd.type) && isPlain(cmd)) || isPen(cmd)) {
+      while (end < list.length && list[end].type === cmd.type && isPlain(list[end])) end++;
+    }
+    if (end - i > 1 && isPen(cmd)) {
+      suggest('duplicate', i, end - i, [cmd]);
+    } else if (end - i > 1) {
+      const total = settle(list.slice(i, end).reduce((sum, other) => sum + other.value, 0));
+      if (isInRange(total, VALUE_RANGES[cmd.type])) suggest('merge', i, end - i, [createCommand(cmd.type, total)]);
+    } else if (isTurn(cmd) && isPlain(cmd) && list[i + 1] && isTurn(list[i + 1]) && isPlain(list[i + 1])) {
+      // Different directions, equal ones are merged above
+      suggest('cancel', i, 2, createTurn(settle(getTurn(cmd) + getTurn(list[i + 1]))));
+      end = i + 2;
+    } else if (isTurn(cmd) && isPlain(cmd) && Math.abs(cmd.value) >= 360) {
+      suggest('normalize', i, 1, createTurn(settle(getTurn(cmd) % 360)));
+    }
+    i = end;
+  }
+
+  list.forEach((cmd, index) => {
+    if (cmd.children) suggestions.push(...findInList(cmd.children, cmd.id, `${prefix}${index + 1}.`));
+  });
+  return suggestions;
+};
+
+export const findSuggestions = (commands: Command[]): Suggestion[] => findInList(commands, null, '');
+
+export const applySuggestion = (commands: Command[], suggestion: Suggestion): Command[] => {
+  const { parentId, index, count, replacement } = suggestion;
+  return updateTree(commands, parentId, list => [...list.slice(0, index), ...replacement, ...list.slice(index + count)]);
+};
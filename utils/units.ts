@@ -0,0 +1,42 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Distance units of FORWARD and BACKWARD, angle helpers and the rounding that keeps positions exact.
+
+import { DistanceUnit } from '../types';
+import { PX_PER_CM } from '../constants';
+
+export const DEFAULT_UNIT = DistanceUnit.CELLS;
+
+// Translation keys of the unit names shown next to values
+export const UNIT_LABEL_KEYS: Record<DistanceUnit, string> = {
+  [DistanceUnit.CELLS]: 'unit_cells',
+  [DistanceUnit.CM]: 'unit_cm',
+  [DistanceUnit.PX]: 'unit_px',
+};
+
+// Board pixels per unit
+export const getUnitLength = (unit: DistanceUnit, cellSize: number) => {
+  switch (unit) {
+    case DistanceUnit.CELLS: return cellSize;
+    case DistanceUnit.CM: return PX_PER_CM;
+    case DistanceUnit.PX: return 1;
+  }
+};
+
+// Positions and angles are rounded to this many decimals after every block, so sin/cos
+// noise (e.g. 299.99999999999994) doesn't pile up and closed shapes end exactly on their start
+const DECIMALS = 6;
+
+export const settle = (n: number) => {
+  const rounded = Math.round(n * 10 ** DECIMALS) / 10 ** DECIMALS;
+  return rounded === 0 ? 0 : rounded; // No -0
+};
+
+export const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Compass heading as shown on the board, 0 to 359 with 0 = north
+export const getHeading = (angle: number) => ((Math.round(angle + 90) % 360) + 360) % 360;
@@ -0,0 +1,42 @@
+/*
+ * RoboDibuix
+ * Copyright (C) 2025 David Cordones
+ * Licensed under AGPL v3
+ */
+
+// Allowed plain values of each block. The block editors, the text view and the file
+// and link importer all check these, so whatever can be written can be loaded again.
+// Expressions are only known when the program runs and are not checked here.
+
+import { CommandType } from '../types';
+import { PEN_COLORS } from '../constants';
+
+export interface ValueRange {
+  min: number; // Inclusive
+  max: number; // Inclusive
+  integer?: boolean;
+}
+
+export const VALUE_RANGES: Record<CommandType, ValueRange> = {
+  [CommandType.FORWARD]: { min: -10000, max: 10000 },
+  [CommandType.BACKWARD]: { min: -10000, max: 10000 },
+  [CommandType.TURN_LEFT]: { min: -3600, max: 3600 },
+  [CommandType.TURN_RIGHT]: { min: -3600, max: 3600 },
+  [CommandType.REPEAT]: { min: 0, max: 1000, integer: true },
+  [CommandType.PEN_UP]: { min: 0, max: 0 },
+  [CommandType.PEN_DOWN]: { min: 0, max: 0 },
+  [CommandType.SET_COLOR]: { min: 0, max: PEN_COLORS.length - 1, integer: true },
+  [CommandType.SET_WIDTH]: { min: 1, max: 50 },
+  [CommandType.DEFINE]: { min: 0, max: 0 },
+  [CommandType.CALL]: { min: 0, max: 0 },
+  [CommandType.SET_VARIABLE]: { min: -10000, max: 10000 },
+  [CommandType.IF]: { min: -3600, max: 3600 }, // FACING heading, taken modulo 360
+  [CommandType.ELSE]: { min: 0, max: 0 },
+};
+
+// Of CALL arguments
+export const ARGUMENT_RANGE: ValueRange = { min: -10000, max: 10000 };
+
+export const isInRange = (value: number, range: ValueRange) => {
+  return Number.isFinite(value) && value >= range.min && value <= range.max && (!range.integer || Number.isInteger(value));
+};